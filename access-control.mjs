@@ -0,0 +1,345 @@
+/**
+ * Access Control
+ *
+ * Keeps the server from being an open relay into the camera network:
+ *
+ * - Admin login (optional): when the users file has any users, every
+ *   camera login, proxy, event, download, firmware, account and reachability
+ *   request needs an admin session cookie from POST /auth/login. Passwords
+ *   are stored as scrypt hashes; manage them with
+ *     node access-control.mjs add-user <username> [password]
+ *     node access-control.mjs remove-user <username>
+ * - Camera allow-list: camera hosts (names, IPs or CIDRs) and ports a
+ *   request may target. IP addresses must fall in a listed IP or CIDR and
+ *   names must be listed themselves. Names are never resolved for the check:
+ *   the camera request resolves them again, and a name that answered with an
+ *   allowed address here could answer with another one there (DNS rebinding).
+ *
+ *   USERS_FILE        Admin users file (default data/users.json)
+ *   ALLOWED_CAMERAS   Comma-separated hosts, IPs and CIDRs (e.g. 192.168.10.0/24,cam1.lan)
+ *   ALLOWED_PORTS     Comma-separated ports and ranges (e.g. 80,443,8000-8100)
+ *   METRICS_TOKEN     Bearer token that lets a scraper read /metrics without
+ *                     an admin login
+ *
+ * Unset lists allow everything. Rejected requests are logged and answered
+ * with 403 { error, code } (code LOGIN_REQUIRED, HOST_NOT_ALLOWED or
+ * PORT_NOT_ALLOWED).
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { randomBytes, createHash, scryptSync, timingSafeEqual } from 'crypto';
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync, statSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { BlockList, isIP } from 'net';
+import { createInterface } from 'readline/promises';
+import { fileURLToPath } from 'url';
+import { readCookie } from './credential-vault.mjs';
+import { parseCameraPath } from './camera-tls.mjs';
+
+const USERS_FILE = resolve(process.env.USERS_FILE || 'data/users.json');
+const ADMIN_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+const ADMIN_COOKIE = 'ipcam_admin';
+const FAILED_LOGIN_DELAY_MS = 1000;
+
+// Admin sessions by token hash (in memory: a restart logs admins out)
+const adminSessions = new Map();
+
+/**
+ * Parse ALLOWED_CAMERAS into IP ranges and host names, or null (any host)
+ */
+function parseAllowedHosts(value) {
+  if (!value?.trim()) return null;
+
+  const addresses = new BlockList();
+  const names = new Set();
+  for (const entry of value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)) {
+    const [address, prefix] = entry.split('/');
+    const family = isIP(address);
+    if (prefix !== undefined) {
+      const bits = Number(prefix);
+      if (!family || !Number.isInteger(bits) || bits < 0 || bits > (family === 6 ? 128 : 32)) {
+        console.warn(`[ACCESS] Ignoring invalid CIDR in ALLOWED_CAMERAS: ${entry}`);
+        continue;
+      }
+      addresses.addSubnet(address, bits, family === 6 ? 'ipv6' : 'ipv4');
+    } else if (family) {
+      addresses.addAddress(address, family === 6 ? 'ipv6' : 'ipv4');
+    } else {
+      names.add(entry);
+    }
+  }
+  return { addresses, names };
+}
+
+/**
+ * Parse ALLOWED_PORTS into a list of [from, to] ranges, or null (any port)
+ */
+function parseAllowedPorts(value) {
+  if (!value?.trim()) return null;
+
+  const ranges = [];
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [from, to = from] = entry.split('-').map(Number);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to > 65535 || from > to) {
+      console.warn(`[ACCESS] Ignoring invalid port in ALLOWED_PORTS: ${entry}`);
+      continue;
+    }
+    ranges.push([from, to]);
+  }
+  return ranges;
+}
+
+const allowedHosts = parseAllowedHosts(process.env.ALLOWED_CAMERAS);
+const allowedPorts = parseAllowedPorts(process.env.ALLOWED_PORTS);
+
+// Users file, reloaded when it changes: { users: { [username]: 'scrypt:salt:hash' } }
+let users = {};
+let usersModified = null;
+let usersUnreadable = false;
+
+function loadUsers() {
+  if (!existsSync(USERS_FILE)) {
+    users = {};
+    usersModified = null;
+    usersUnreadable = false;
+    return users;
+  }
+
+  const modified = statSync(USERS_FILE).mtimeMs;
+  if (modified !== usersModified) {
+    try {
+      users = JSON.parse(readFileSync(USERS_FILE, 'utf8')).users || {};
+      usersUnreadable = false;
+    } catch (error) {
+      console.error(`[ACCESS] Cannot read ${USERS_FILE} (${error.message}), no admin can log in`);
+      users = {};
+      usersUnreadable = true;
+    }
+    usersModified = modified;
+  }
+  return users;
+}
+
+// A broken users file keeps the login on (nobody can log in) rather than switching it off
+const loginRequired = () => Object.keys(loadUsers()).length > 0 || usersUnreadable;
+
+function hashPassword(password) {
+  const salt = randomBytes(16);
+  return `scrypt:${salt.toString('base64')}:${scryptSync(password, salt, 64).toString('base64')}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = String(stored || '').split(':');
+  // Hash anyway for unknown users so the response time doesn't reveal them
+  const expected = scheme === 'scrypt' && hash ? Buffer.from(hash, 'base64') : Buffer.alloc(64);
+  const actual = scryptSync(password, Buffer.from(salt || '', 'base64'), expected.length);
+  return scheme === 'scrypt' && !!hash && timingSafeEqual(actual, expected);
+}
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Username of the request's admin session, or null
+ */
+function adminUser(req) {
+  const token = readCookie(req, ADMIN_COOKIE);
+  if (!token) return null;
+
+  const hash = hashToken(token);
+  const session = adminSessions.get(hash);
+  if (!session || session.expiresAt <= Date.now() || !loadUsers()[session.username]) {
+    adminSessions.delete(hash);
+    return null;
+  }
+  return session.username;
+}
+
+/**
+ * Log a rejected request and answer 403
+ */
+function reject(req, res, code, error) {
+  console.warn(`[ACCESS] Rejected ${req.method} ${req.originalUrl.split('?')[0]} from ${req.ip}: ${error}`);
+  res.status(403).json({ error, code });
+}
+
+/**
+ * Why a camera may not be contacted, or null when it may
+ */
+function cameraDenial(host, port) {
+  const portNumber = Number(port);
+  if (allowedPorts && !allowedPorts.some(([from, to]) => portNumber >= from && portNumber <= to)) {
+    return { code: 'PORT_NOT_ALLOWED', error: `Port ${port} is not in the camera allow-list` };
+  }
+  if (!allowedHosts) return null;
+
+  const name = String(host).replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts.names.has(name)) return null;
+
+  const family = isIP(name);
+  if (!family) {
+    return { code: 'HOST_NOT_ALLOWED', error: `Host name ${host} is not in the camera allow-list (list the name, or use the camera's IP address)` };
+  }
+  if (!allowedHosts.addresses.check(name, family === 6 ? 'ipv6' : 'ipv4')) {
+    return { code: 'HOST_NOT_ALLOWED', error: `Host ${host} is not in the camera allow-list` };
+  }
+  return null;
+}
+
+function allowCamera(req, res, next, host, port) {
+  const denial = cameraDenial(host, port);
+  if (denial) return reject(req, res, denial.code, denial.error);
+  next();
+}
+
+/**
+ * Middleware for every camera route: require an admin session when logins are enabled
+ */
+export function requireAdmin(req, res, next) {
+  if (!loginRequired() || adminUser(req)) return next();
+  reject(req, res, 'LOGIN_REQUIRED', 'Admin login required');
+}
+
+/**
+ * Middleware for /metrics: the METRICS_TOKEN bearer token, else as requireAdmin
+ */
+export function requireMetricsAccess(req, res, next) {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return requireAdmin(req, res, next);
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(String(req.headers.authorization || ''));
+  if ((given.length === expected.length && timingSafeEqual(given, expected)) || (loginRequired() && adminUser(req))) {
+    return next();
+  }
+  reject(req, res, 'LOGIN_REQUIRED', 'Metrics need the METRICS_TOKEN bearer token or an admin login');
+}
+
+/**
+ * Middleware for routes mounted with the camera in the path (/SCHEME/HOST/PORT/...)
+ */
+export function guardCamera(req, res, next) {
+  const target = parseCameraPath(req.url);
+  if (!target) {
+    return res.status(400).json({ error: 'Invalid camera URL. Expected: /SCHEME/HOST/PORT/... (SCHEME http or https)', code: 'INVALID_REQUEST' });
+  }
+  return allowCamera(req, res, next, target.host, target.port);
+}
+
+/**
+ * Middleware for POST /session/cameras (camera in the JSON body)
+ */
+export function guardCameraLogin(req, res, next) {
+  const { host, port = 80 } = req.body || {};
+  if (typeof host !== 'string') return next();
+  return allowCamera(req, res, next, host, port);
+}
+
+/**
+ * Express handler for GET /auth: whether a login is needed and who is logged in
+ */
+export function adminStatus(req, res) {
+  res.json({ loginRequired: loginRequired(), username: adminUser(req) });
+}
+
+/**
+ * Express handler for POST /auth/login (JSON: username, password)
+ */
+export async function adminLogin(req, res) {
+  const { username, password } = req.body || {};
+  const stored = typeof username === 'string' ? loadUsers()[username] : undefined;
+
+  if (typeof password !== 'string' || !verifyPassword(password, stored)) {
+    console.warn(`[ACCESS] Failed admin login as ${username} from ${req.ip}`);
+    // Slow down password guessing
+    await new Promise(resolveDelay => setTimeout(resolveDelay, FAILED_LOGIN_DELAY_MS));
+    return res.status(401).json({ error: 'Wrong username or password', code: 'LOGIN_FAILED' });
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  adminSessions.set(hashToken(token), { username, expiresAt: Date.now() + ADMIN_TTL_MS });
+
+  res.cookie(ADMIN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    path: '/',
+    maxAge: ADMIN_TTL_MS
+  });
+  console.log(`[ACCESS] Admin ${username} logged in from ${req.ip}`);
+  res.json({ username });
+}
+
+/**
+ * Express handler for POST /auth/logout
+ */
+export function adminLogout(req, res) {
+  const token = readCookie(req, ADMIN_COOKIE);
+  if (token) adminSessions.delete(hashToken(token));
+  res.clearCookie(ADMIN_COOKIE, { path: '/' });
+  res.status(204).end();
+}
+
+/**
+ * Print the access settings at startup
+ */
+export function logAccessControl() {
+  console.log(`   Admin login: ${loginRequired() ? `required (${USERS_FILE})` : 'disabled (no users file)'}`);
+  if (allowedHosts) {
+    console.log(`   Camera hosts: ${process.env.ALLOWED_CAMERAS}`);
+  } else {
+    console.warn(`   ⚠ Camera hosts: any (set ALLOWED_CAMERAS to restrict)`);
+  }
+  console.log(`   Camera ports: ${allowedPorts ? process.env.ALLOWED_PORTS : 'any'}`);
+}
+
+/**
+ * Write the users file atomically (temp file + rename)
+ */
+function saveUsers(updated) {
+  mkdirSync(dirname(USERS_FILE), { recursive: true });
+  const temp = `${USERS_FILE}.tmp`;
+  writeFileSync(temp, JSON.stringify({ users: updated }, null, 2), { mode: 0o600 });
+  renameSync(temp, USERS_FILE);
+}
+
+/**
+ * Command line: add-user <username> [password] | remove-user <username>
+ */
+async function main([command, username, password]) {
+  if (!['add-user', 'remove-user'].includes(command) || !username) {
+    console.error('Usage: node access-control.mjs add-user <username> [password]');
+    console.error('       node access-control.mjs remove-user <username>');
+    process.exit(1);
+  }
+
+  const updated = { ...loadUsers() };
+  if (usersUnreadable) {
+    console.error(`Fix or remove ${USERS_FILE} first`);
+    process.exit(1);
+  }
+  if (command === 'remove-user') {
+    delete updated[username];
+    saveUsers(updated);
+    console.log(`Removed ${username} from ${USERS_FILE}`);
+    return;
+  }
+
+  if (!password) {
+    const prompt = createInterface({ input: process.stdin, output: process.stdout });
+    password = await prompt.question(`Password for ${username}: `);
+    prompt.close();
+  }
+  if (!password) {
+    console.error('Password is required');
+    process.exit(1);
+  }
+
+  updated[username] = hashPassword(password);
+  saveUsers(updated);
+  console.log(`Saved ${username} to ${USERS_FILE}`);
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2));
+}
@@ -0,0 +1,117 @@
+/**
+ * Camera Accounts
+ *
+ * userManager.cgi takes passwords in the query string, so the calls that
+ * carry one do not go through /proxy (which logs every URL it forwards).
+ * The browser posts the userManager parameters as JSON instead:
+ *
+ *   POST /accounts/SCHEME/HOST/PORT
+ *   { "action": "modifyPassword", "name": "viewer", "pwd": "...", "pwdOld": "..." }
+ *
+ * and the server sends them on to the camera, logging only the action and the
+ * account name. Answers { ok: true }, or the camera-errors.mjs envelope.
+ * modifyPasswordByManager gets managerName and managerPwd from the vault (the
+ * browser never has them), and a new password for the account the session
+ * logs in with is stored in the vault once the camera accepts it.
+ * /proxy refuses these actions, and masks password parameters in any URL it
+ * logs (redactUrl).
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { requireCameraCredentials, updateCameraPassword } from './credential-vault.mjs';
+import { cameraBaseUrl, describeFetchError } from './camera-tls.mjs';
+import { cameraFetch } from './camera-pool.mjs';
+import { sendFailure, refusalFailure } from './camera-errors.mjs';
+
+// userManager actions whose parameters include a password
+export const ACCOUNT_ACTIONS = ['addUser', 'modifyPassword', 'modifyPasswordByManager'];
+
+// Query parameters never written to the log
+const SECRET_PARAMS = /^(pwd|pwdOld|managerPwd|password|user\.Password)$/i;
+
+/**
+ * Decoded URL component, or the text as sent if its escapes are malformed
+ */
+function safeDecode(text) {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * URL with the values of password parameters replaced by ***
+ */
+export function redactUrl(url) {
+  const [base, query] = url.split('?');
+  if (!query) return url;
+  return `${base}?${query.split('&').map((pair) => {
+    const [key] = pair.split('=');
+    return SECRET_PARAMS.test(safeDecode(key)) ? `${key}=***` : pair;
+  }).join('&')}`;
+}
+
+/**
+ * Whether a proxied path and query is a userManager call that carries a password
+ */
+export function isAccountRequest(path, query) {
+  // Cameras may decode the path, so userManager%2Ecgi counts too
+  if (!/\/userManager\.cgi$/i.test(path) && !/\/userManager\.cgi$/i.test(safeDecode(path))) return false;
+  return ACCOUNT_ACTIONS.includes(new URLSearchParams(query || '').get('action'));
+}
+
+/**
+ * Express handler for POST /accounts/:scheme/:host/:port (JSON: userManager parameters)
+ */
+export async function changeAccount(req, res) {
+  const { scheme, host, port } = req.params;
+  const params = req.body || {};
+
+  if (!ACCOUNT_ACTIONS.includes(params.action) || !Object.values(params).every(value => typeof value === 'string')) {
+    return sendFailure(res, {
+      status: 400,
+      code: 'INVALID_REQUEST',
+      error: `Invalid account request: expected string parameters with action ${ACCOUNT_ACTIONS.join(', ')}`
+    });
+  }
+
+  const credentials = requireCameraCredentials(req, res, host, port);
+  if (!credentials) return;
+
+  const account = params.name || params.userName || params['user.Name'] || '';
+  console.log(`[ACCOUNTS] ${params.action} ${account} on ${host}:${port}`);
+
+  const cameraParams = params.action === 'modifyPasswordByManager'
+    ? { ...params, managerName: credentials.username, managerPwd: credentials.password }
+    : params;
+  // Spaces as %20 (not +), as in the API examples
+  const query = new URLSearchParams(cameraParams).toString().replace(/\+/g, '%20');
+  const targetUrl = `${cameraBaseUrl(scheme, host, port)}/cgi-bin/userManager.cgi?${query}`;
+
+  try {
+    const response = await cameraFetch({ scheme, host, port }, credentials, targetUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; RetroIPCam/1.2)'
+      }
+    });
+    const text = await response.text();
+
+    // Some firmware answers "Error" with HTTP 200
+    if (!response.ok || !/^ok/i.test(text.trim())) {
+      const failure = refusalFailure(response, params.action, text);
+      console.warn(`[ACCOUNTS] ${failure.error}`);
+      return sendFailure(res, failure);
+    }
+
+    if (params.action !== 'addUser') {
+      updateCameraPassword(req, host, port, account, params.pwd);
+    }
+    res.json({ ok: true });
+  } catch (error) {
+    const failure = await describeFetchError(error, scheme, host, port);
+    console.error(`[ACCOUNTS ERROR]`, failure.error);
+    sendFailure(res, failure);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Camera Errors
+ *
+ * Every camera route answers failures with the same JSON envelope, so the
+ * browser can tell a wrong password from an unreachable camera without
+ * parsing messages:
+ *
+ *   { error: 'Camera rejected the username or password', code: 'CAMERA_AUTH',
+ *     cameraStatus?: 401, detail?: 'Error\r\nBad Request!', tls?: { code, fingerprint } }
+ *
+ *   INVALID_REQUEST      400  Malformed camera URL or request fields
+ *   SESSION_REQUIRED     401  No stored credentials for the camera (connect again)
+ *   CAMERA_AUTH          401  Camera rejected the stored username or password
+ *   CAMERA_REJECTED      502  Camera answered with an error (detail: its body)
+ *   UNEXPECTED_RESPONSE  502  Camera answered, but not like an Amcrest/Dahua API
+ *   CAMERA_UNREACHABLE   502  Connection refused or reset, or host not found
+ *   CAMERA_TLS           502  Certificate or HTTPS problem (see camera-tls.mjs)
+ *   CAMERA_BUSY          503  Too many requests waiting for the camera
+ *   CAMERA_TIMEOUT       504  Camera did not answer in time
+ *
+ * access-control.mjs adds LOGIN_REQUIRED, HOST_NOT_ALLOWED, PORT_NOT_ALLOWED
+ * (403) and LOGIN_FAILED (401) in the same envelope, firmware-upgrade.mjs
+ * FIRMWARE_INVALID, FIRMWARE_MISMATCH and FIRMWARE_UNCONFIRMED (422).
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+// Longest camera error body passed on as detail
+const DETAIL_LENGTH = 500;
+
+/**
+ * Error carrying an envelope's status and code (thrown inside handlers)
+ */
+export function cameraError(status, code, message) {
+  const error = new Error(message);
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+/**
+ * Answer a failure ({ status, code, error, ... }) with the JSON envelope
+ */
+export function sendFailure(res, { status, error, code, ...details }) {
+  res.status(status).json({ error, code, ...details });
+}
+
+/**
+ * Failure for a camera response that is not 2xx
+ *
+ * @param action - What was asked, for the message (e.g. 'download')
+ * @param text - The camera's response body
+ */
+export function refusalFailure(response, action, text = '') {
+  if (response.status === 401) {
+    return {
+      status: 401,
+      code: 'CAMERA_AUTH',
+      cameraStatus: 401,
+      error: 'Camera rejected the username or password. Connect again with the current password.'
+    };
+  }
+
+  const detail = text.trim().slice(0, DETAIL_LENGTH);
+  return {
+    status: 502,
+    code: 'CAMERA_REJECTED',
+    cameraStatus: response.status,
+    error: `Camera refused ${action}: HTTP ${response.status}${detail ? ` ${detail.split(/\r?\n/).join(' ')}` : ''}`,
+    ...(detail && { detail })
+  };
+}
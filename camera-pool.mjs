@@ -0,0 +1,401 @@
+/**
+ * Camera Connection Pool
+ *
+ * One entry per camera (scheme, host and port) with:
+ * - DigestClients per user, one per request in flight, so each keeps the
+ *   nonce from its first 401 challenge and later requests go out
+ *   authenticated in one round trip. A client is never shared by concurrent
+ *   requests, so its nonce count (nc) only ever increases, which cameras
+ *   that check it require.
+ * - an undici Agent that keeps sockets alive between requests
+ * - a request queue, so an old camera never handles more than its
+ *   concurrency limit at once. Ordinary requests hold their slot until the
+ *   body has been read; streams (multipart MJPEG, event streams, downloads)
+ *   only until their headers arrive. withCameraSlot holds one slot across
+ *   a longer operation (the firmware upload).
+ *
+ *   CAMERA_CONCURRENCY        Requests in flight per camera (default 2)
+ *   CAMERA_CONCURRENCY_HOSTS  Per-camera limits, e.g. 192.168.1.20=1,oldcam.lan:8080=1
+ *   CAMERA_TIMEOUT_SECONDS    Queue wait plus response, per request (default 20)
+ *   CAMERA_QUEUE_LIMIT        Requests waiting per camera before 503 (default 50)
+ *   CAMERA_KEEPALIVE_SECONDS  How long idle sockets stay open (default 30)
+ *
+ * GET /metrics reports per-camera latency, queue wait, queue depth and
+ * request counts in the Prometheus text format (?format=json for JSON).
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import DigestClient from 'digest-fetch';
+import { Agent } from 'undici';
+import { tlsAgentOptions, normalizeFingerprint } from './camera-tls.mjs';
+import { cameraError } from './camera-errors.mjs';
+
+const positive = (value, fallback) => (Number(value) > 0 ? Number(value) : fallback);
+
+const DEFAULT_CONCURRENCY = Math.floor(positive(process.env.CAMERA_CONCURRENCY, 2));
+const TIMEOUT_MS = positive(process.env.CAMERA_TIMEOUT_SECONDS, 20) * 1000;
+const QUEUE_LIMIT = Math.floor(positive(process.env.CAMERA_QUEUE_LIMIT, 50));
+const KEEPALIVE_MS = positive(process.env.CAMERA_KEEPALIVE_SECONDS, 30) * 1000;
+
+// Cameras unused this long have their sockets and digest state dropped
+const IDLE_EVICT_MS = 10 * 60 * 1000;
+// Latency quantiles are computed over the most recent requests
+const LATENCY_SAMPLES = 500;
+const STREAM_TYPES = /^(multipart\/|text\/event-stream)/i;
+
+/**
+ * Parse CAMERA_CONCURRENCY_HOSTS ("host=limit" or "host:port=limit" pairs)
+ */
+function parseConcurrencyHosts(value) {
+  const limits = new Map();
+  for (const entry of String(value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf('=');
+    const limit = Number(entry.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(limit) || limit < 1) {
+      console.warn(`[POOL] Ignoring invalid entry in CAMERA_CONCURRENCY_HOSTS: ${entry}`);
+      continue;
+    }
+    limits.set(entry.slice(0, separator).toLowerCase(), limit);
+  }
+  return limits;
+}
+
+const concurrencyHosts = parseConcurrencyHosts(process.env.CAMERA_CONCURRENCY_HOSTS);
+
+// Pool entries by camera URL origin, and their metrics (kept after eviction)
+const cameras = new Map();
+const metrics = new Map();
+
+function cameraMetrics(label) {
+  if (!metrics.has(label)) {
+    metrics.set(label, {
+      statuses: {},
+      errors: 0,
+      timeouts: 0,
+      rejected: 0,
+      latency: { samples: [], sum: 0, count: 0 },
+      wait: { samples: [], sum: 0, count: 0 }
+    });
+  }
+  return metrics.get(label);
+}
+
+function observe(series, ms) {
+  series.samples.push(ms);
+  if (series.samples.length > LATENCY_SAMPLES) series.samples.shift();
+  series.sum += ms;
+  series.count++;
+}
+
+/**
+ * Pool entry for a camera, (re)creating its Agent when the TLS options change
+ */
+function cameraEntry(scheme, host, port, tls = {}) {
+  const label = `${scheme}://${String(host).toLowerCase()}:${port}`;
+  const tlsKey = `${!!tls.allowSelfSigned}|${normalizeFingerprint(tls.fingerprint) || ''}`;
+  let camera = cameras.get(label);
+
+  if (!camera) {
+    camera = {
+      label,
+      limit: concurrencyHosts.get(`${String(host).toLowerCase()}:${port}`) ??
+        concurrencyHosts.get(String(host).toLowerCase()) ??
+        DEFAULT_CONCURRENCY,
+      active: 0,
+      queue: [],
+      clients: new Map(),
+      agent: null,
+      tlsKey: null,
+      lastUsed: Date.now(),
+      metrics: cameraMetrics(label)
+    };
+    cameras.set(label, camera);
+  }
+
+  if (camera.tlsKey !== tlsKey) {
+    // Requests still using the old Agent finish first
+    camera.agent?.close().catch(() => {});
+    camera.agent = new Agent({ keepAliveTimeout: KEEPALIVE_MS, ...tlsAgentOptions(scheme, tls) });
+    camera.tlsKey = tlsKey;
+  }
+  return camera;
+}
+
+/**
+ * Take an idle DigestClient of a user for one request (a new one if none is
+ * idle; the idle ones are dropped when the password changed)
+ */
+function takeClient(camera, username, password) {
+  let clients = camera.clients.get(username);
+  if (clients?.password !== password) {
+    clients = { password, idle: [] };
+    camera.clients.set(username, clients);
+  }
+  return clients.idle.pop() ?? new DigestClient(username, password);
+}
+
+/**
+ * Give a client back once its request is done (at most one per slot is kept)
+ */
+function returnClient(camera, username, password, client) {
+  const clients = camera.clients.get(username);
+  if (clients?.password === password && clients.idle.length < camera.limit) {
+    clients.idle.push(client);
+  }
+}
+
+/**
+ * Wait for a free slot (resolves once the request may start)
+ */
+function acquire(camera, signal) {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  if (camera.active < camera.limit) {
+    camera.active++;
+    return Promise.resolve();
+  }
+  if (camera.queue.length >= QUEUE_LIMIT) {
+    return Promise.reject(cameraError(503, 'CAMERA_BUSY', `Camera ${camera.label} already has ${QUEUE_LIMIT} requests waiting, try again shortly`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter = { resolve, reject };
+    camera.queue.push(waiter);
+    signal.addEventListener('abort', () => {
+      const index = camera.queue.indexOf(waiter);
+      if (index >= 0) {
+        camera.queue.splice(index, 1);
+        reject(signal.reason);
+      }
+    }, { once: true });
+  });
+}
+
+/**
+ * Hand the slot to the next queued request, or free it
+ */
+function release(camera) {
+  const next = camera.queue.shift();
+  if (next) {
+    next.resolve();
+  } else {
+    camera.active--;
+  }
+  camera.lastUsed = Date.now();
+}
+
+/**
+ * Fetch from a camera through its pool entry
+ *
+ * @param target { scheme, host, port }
+ * @param credentials { username, password, tls } from the session
+ * @param options fetch options (method, headers, signal, ...)
+ * @param stream true when the response is long-lived (holds its slot only until headers)
+ * @param timeoutMs Queue wait plus response, if not CAMERA_TIMEOUT_SECONDS
+ * @throws Error with status 503 (queue full) or 504 (timed out), or the fetch error
+ */
+export async function cameraFetch({ scheme, host, port }, { username, password, tls }, url, options = {}, { stream = false, timeoutMs = TIMEOUT_MS } = {}) {
+  const camera = cameraEntry(scheme, host, port, tls);
+  const started = Date.now();
+
+  // Covers the queue wait and the response (only its headers for streams)
+  const timeout = new AbortController();
+  const timer = setTimeout(() => {
+    timeout.abort(cameraError(504, 'CAMERA_TIMEOUT', `Camera did not answer within ${timeoutMs / 1000} seconds (${camera.queue.length} requests waiting)`));
+  }, timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout.signal]) : timeout.signal;
+
+  try {
+    await acquire(camera, signal);
+  } catch (error) {
+    clearTimeout(timer);
+    if (error.code === 'CAMERA_BUSY') camera.metrics.rejected++;
+    if (timeout.signal.aborted) camera.metrics.timeouts++;
+    throw error;
+  }
+  observe(camera.metrics.wait, Date.now() - started);
+  const client = takeClient(camera, username, password);
+
+  let released = false;
+  const done = () => {
+    if (released) return;
+    released = true;
+    clearTimeout(timer);
+    returnClient(camera, username, password, client);
+    release(camera);
+  };
+
+  let response;
+  try {
+    response = await client.fetch(url, { ...options, signal, dispatcher: camera.agent });
+  } catch (error) {
+    done();
+    if (timeout.signal.aborted) {
+      camera.metrics.timeouts++;
+      throw timeout.signal.reason;
+    }
+    if (!options.signal?.aborted) camera.metrics.errors++;
+    throw error;
+  }
+
+  const statusClass = `${Math.floor(response.status / 100)}xx`;
+  camera.metrics.statuses[statusClass] = (camera.metrics.statuses[statusClass] || 0) + 1;
+  observe(camera.metrics.latency, Date.now() - started);
+
+  if (stream || !response.body || STREAM_TYPES.test(response.headers.get('content-type') || '')) {
+    done();
+    return response;
+  }
+
+  // Free the slot once the body has been read (or the read failed)
+  const { readable, writable } = new TransformStream();
+  response.body.pipeTo(writable).then(done, done);
+  return new Response(readable, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Run requests of one long operation in a single slot, with one DigestClient
+ *
+ * For requests cameraFetch cannot send, such as a streamed upload that must
+ * go out authenticated up front (its body cannot be replayed after a 401).
+ * fn receives { client, dispatcher } and the slot is held until it settles;
+ * only the queue wait is timed.
+ *
+ * @param signal Aborts the queue wait
+ * @returns What fn returns
+ */
+export async function withCameraSlot({ scheme, host, port }, { username, password, tls }, fn, { signal } = {}) {
+  const camera = cameraEntry(scheme, host, port, tls);
+  const started = Date.now();
+
+  const timeout = new AbortController();
+  const timer = setTimeout(() => {
+    timeout.abort(cameraError(504, 'CAMERA_TIMEOUT', `Camera had no free slot within ${TIMEOUT_MS / 1000} seconds (${camera.queue.length} requests waiting)`));
+  }, TIMEOUT_MS);
+
+  try {
+    await acquire(camera, signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal);
+  } catch (error) {
+    if (error.code === 'CAMERA_BUSY') camera.metrics.rejected++;
+    if (timeout.signal.aborted) {
+      camera.metrics.timeouts++;
+      throw timeout.signal.reason;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+  observe(camera.metrics.wait, Date.now() - started);
+  const client = takeClient(camera, username, password);
+
+  try {
+    return await fn({ client, dispatcher: camera.agent });
+  } catch (error) {
+    // Refusals thrown by fn carry a status; only failed requests count as errors
+    if (!signal?.aborted && !error.status) camera.metrics.errors++;
+    throw error;
+  } finally {
+    returnClient(camera, username, password, client);
+    release(camera);
+  }
+}
+
+// Drop idle cameras' sockets and digest state
+setInterval(() => {
+  const cutoff = Date.now() - IDLE_EVICT_MS;
+  for (const [label, camera] of cameras) {
+    if (camera.active === 0 && camera.lastUsed < cutoff) {
+      camera.agent.close().catch(() => {});
+      cameras.delete(label);
+    }
+  }
+}, IDLE_EVICT_MS).unref();
+
+/**
+ * Quantile (0-1) of a sample list, in seconds
+ */
+function quantile(samples, q) {
+  if (samples.length === 0) return 0;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] / 1000;
+}
+
+/**
+ * Current metrics, one entry per camera
+ */
+function snapshot() {
+  return [...metrics].map(([label, stats]) => {
+    const camera = cameras.get(label);
+    return {
+      camera: label,
+      limit: camera?.limit ?? 0,
+      active: camera?.active ?? 0,
+      queued: camera?.queue.length ?? 0,
+      statuses: { ...stats.statuses },
+      errors: stats.errors,
+      timeouts: stats.timeouts,
+      rejected: stats.rejected,
+      latency: stats.latency,
+      wait: stats.wait
+    };
+  });
+}
+
+/**
+ * Prometheus text exposition of the metrics
+ */
+function prometheusText(entries) {
+  const lines = [];
+  const metric = (name, type, help, rows) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...rows);
+  };
+  const label = (entry, extra = '') => `{camera="${entry.camera}"${extra}}`;
+  const summary = (name, help, key) => metric(name, 'summary', help, entries.flatMap(entry => [
+    `${name}${label(entry, ',quantile="0.5"')} ${quantile(entry[key].samples, 0.5)}`,
+    `${name}${label(entry, ',quantile="0.95"')} ${quantile(entry[key].samples, 0.95)}`,
+    `${name}${label(entry, ',quantile="0.99"')} ${quantile(entry[key].samples, 0.99)}`,
+    `${name}_sum${label(entry)} ${entry[key].sum / 1000}`,
+    `${name}_count${label(entry)} ${entry[key].count}`
+  ]));
+
+  metric('ipcam_camera_requests_total', 'counter', 'Camera responses by status class',
+    entries.flatMap(entry => Object.entries(entry.statuses).map(([status, count]) => `ipcam_camera_requests_total${label(entry, `,status="${status}"`)} ${count}`)));
+  metric('ipcam_camera_request_errors_total', 'counter', 'Camera requests that failed without a response',
+    entries.map(entry => `ipcam_camera_request_errors_total${label(entry)} ${entry.errors}`));
+  metric('ipcam_camera_request_timeouts_total', 'counter', 'Camera requests that timed out (queued or in flight)',
+    entries.map(entry => `ipcam_camera_request_timeouts_total${label(entry)} ${entry.timeouts}`));
+  metric('ipcam_camera_queue_rejections_total', 'counter', 'Camera requests refused because the queue was full',
+    entries.map(entry => `ipcam_camera_queue_rejections_total${label(entry)} ${entry.rejected}`));
+  metric('ipcam_camera_queue_depth', 'gauge', 'Camera requests waiting for a slot',
+    entries.map(entry => `ipcam_camera_queue_depth${label(entry)} ${entry.queued}`));
+  metric('ipcam_camera_active_requests', 'gauge', 'Camera requests in flight',
+    entries.map(entry => `ipcam_camera_active_requests${label(entry)} ${entry.active}`));
+  metric('ipcam_camera_concurrency_limit', 'gauge', 'Camera requests allowed in flight',
+    entries.map(entry => `ipcam_camera_concurrency_limit${label(entry)} ${entry.limit}`));
+  summary('ipcam_camera_latency_seconds', 'Time from request to camera response headers, queue wait included', 'latency');
+  summary('ipcam_camera_queue_wait_seconds', 'Time camera requests waited for a slot', 'wait');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Express handler for GET /metrics (?format=json for JSON)
+ */
+export function sendMetrics(req, res) {
+  const entries = snapshot();
+
+  if (req.query.format === 'json') {
+    return res.json({
+      cameras: entries.map(({ latency, wait, ...entry }) => ({
+        ...entry,
+        latencyMs: { p50: quantile(latency.samples, 0.5) * 1000, p95: quantile(latency.samples, 0.95) * 1000, count: latency.count },
+        queueWaitMs: { p50: quantile(wait.samples, 0.5) * 1000, p95: quantile(wait.samples, 0.95) * 1000, count: wait.count }
+      }))
+    });
+  }
+
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(prometheusText(entries));
+}
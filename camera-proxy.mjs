@@ -0,0 +1,176 @@
+/**
+ * Camera Proxy
+ *
+ * Forwards /proxy/SCHEME/HOST/PORT/path requests (SCHEME http or https) to
+ * the camera with HTTP Digest authentication (credentials and TLS options
+ * from the session, see credential-vault.mjs and camera-tls.mjs) through the
+ * camera's pool entry (camera-pool.mjs) and streams the response body
+ * straight through, so
+ * long-lived responses (multipart/x-mixed-replace MJPEG) reach the browser
+ * frame by frame and large files in constant memory. The camera request is
+ * aborted when the browser disconnects. Camera errors (non-2xx answers) and
+ * failed requests come back in the JSON envelope of camera-errors.mjs.
+ * userManager calls that carry passwords belong on /accounts
+ * (camera-accounts.mjs) and are refused here; logged URLs have password
+ * parameters masked.
+ *
+ * GET /reachable/SCHEME/HOST/PORT only checks that something accepts a TCP
+ * connection there, without sending a request or credentials, for addresses
+ * that may belong to another device (e.g. before moving a camera to one).
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { Readable } from 'stream';
+import { connect } from 'net';
+import { requireCameraCredentials } from './credential-vault.mjs';
+import { cameraBaseUrl, parseCameraPath, describeFetchError } from './camera-tls.mjs';
+import { cameraFetch } from './camera-pool.mjs';
+import { sendFailure, refusalFailure } from './camera-errors.mjs';
+import { isAccountRequest, redactUrl } from './camera-accounts.mjs';
+
+// Response headers copied from the camera
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'content-disposition', 'cache-control'];
+// How long /reachable waits for a TCP connection
+const REACHABLE_TIMEOUT_MS = 3000;
+
+/**
+ * Copy a camera response's status, headers and body to the Express response
+ *
+ * The body is piped as it arrives and never buffered, so large files and
+ * endless multipart streams both pass through in constant memory.
+ */
+export function streamResponse(response, res, signal) {
+  res.status(response.status);
+  for (const name of FORWARDED_HEADERS) {
+    const value = response.headers.get(name);
+    // fetch decodes compressed bodies, so the camera's length would be wrong
+    if (name === 'content-length' && response.headers.has('content-encoding')) continue;
+    // Callers may set their own (e.g. a download filename)
+    if (value && !res.hasHeader(name)) {
+      res.setHeader(name, value);
+    }
+  }
+
+  if (!response.body) {
+    return res.end();
+  }
+
+  // Multipart streams never end, so send headers before the first part
+  if ((response.headers.get('content-type') || '').startsWith('multipart/')) {
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+  }
+
+  Readable.fromWeb(response.body)
+    .on('error', (error) => {
+      if (!signal.aborted) {
+        console.error(`[PROXY STREAM ERROR]`, error.message);
+      }
+      res.destroy();
+    })
+    .pipe(res);
+}
+
+/**
+ * Express middleware for /proxy/:scheme/:host/:port + any path
+ */
+export async function proxyRequest(req, res) {
+  const target = parseCameraPath(req.url);
+  if (!target) {
+    return sendFailure(res, {
+      status: 400,
+      code: 'INVALID_REQUEST',
+      error: 'Invalid proxy URL format. Expected: /proxy/SCHEME/HOST/PORT/path (SCHEME http or https)'
+    });
+  }
+
+  const { scheme, host, port, path, query } = target;
+  const targetUrl = `${cameraBaseUrl(scheme, host, port)}${path}${query ? '?' + query : ''}`;
+
+  const logUrl = redactUrl(targetUrl);
+  console.log(`[PROXY] ${req.method} ${logUrl}`);
+
+  if (isAccountRequest(path, query)) {
+    return sendFailure(res, {
+      status: 400,
+      code: 'INVALID_REQUEST',
+      error: 'userManager calls with passwords go through POST /accounts/SCHEME/HOST/PORT, not the proxy'
+    });
+  }
+
+  const credentials = requireCameraCredentials(req, res, host, port);
+  if (!credentials) return;
+
+  // Abort the camera request if the browser goes away mid-response
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  try {
+    // Queued per camera, with the digest nonce and sockets reused
+    const response = await cameraFetch(target, credentials, targetUrl, {
+      method: req.method,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; RetroIPCam/1.2)'
+      },
+      signal: controller.signal
+    });
+
+    // Error bodies are short ("Error\r\nBad Request!"), pass them on as detail
+    if (!response.ok) {
+      const failure = refusalFailure(response, path.split('/').pop() || path, await response.text());
+      console.warn(`[PROXY] ${failure.error}`);
+      return sendFailure(res, failure);
+    }
+
+    // Stream the body through (images, text, and endless MJPEG alike)
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.startsWith('multipart/')) {
+      console.log(`[PROXY] Streaming ${contentType.split(';')[0]} from ${host}`);
+    }
+    streamResponse(response, res, controller.signal);
+
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`[PROXY] Client disconnected from ${logUrl}`);
+      return;
+    }
+    const failure = await describeFetchError(error, scheme, host, port);
+    console.error(`[PROXY ERROR]`, failure.error);
+    if (!res.headersSent) {
+      sendFailure(res, failure);
+    }
+  }
+}
+
+/**
+ * Whether something accepts a TCP connection at host:port (closed again unused)
+ */
+function acceptsConnection(host, port) {
+  return new Promise((resolve) => {
+    const socket = connect({ host, port: Number(port) });
+    const done = (accepted) => {
+      socket.destroy();
+      resolve(accepted);
+    };
+    socket.setTimeout(REACHABLE_TIMEOUT_MS, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * Express handler for GET /reachable/:scheme/:host/:port
+ *
+ * Answers { reachable }. Needs no camera login: nothing is sent to the address.
+ */
+export async function checkReachable(req, res) {
+  const { host, port } = req.params;
+  const reachable = await acceptsConnection(host, port);
+  console.log(`[PROXY] ${host}:${port} ${reachable ? 'accepts connections' : 'does not answer'}`);
+  res.json({ reachable });
+}
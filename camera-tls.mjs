@@ -0,0 +1,185 @@
+/**
+ * Camera TLS
+ *
+ * Builds camera URLs from the scheme in the route (/proxy/https/HOST/PORT/...)
+ * and the fetch dispatcher for a camera's TLS options, which are stored with
+ * its credentials at login:
+ *
+ *   allowSelfSigned  Accept certificates that don't chain to a trusted CA
+ *   fingerprint      Pinned SHA-256 certificate fingerprint (hex, colons
+ *                    optional); the certificate must match it, trusted or not
+ *
+ * Failed camera requests are described in the error envelope of
+ * camera-errors.mjs; TLS failures get messages that say what to change,
+ * including the certificate's fingerprint so it can be pinned.
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { Agent, buildConnector } from 'undici';
+import { connect } from 'tls';
+import { isIP } from 'net';
+
+export const CAMERA_SCHEMES = ['http', 'https'];
+const FINGERPRINT_TIMEOUT_MS = 5000;
+
+// Agents by TLS options, so connections are reused per option set
+const agents = new Map();
+
+/**
+ * Normalize a SHA-256 fingerprint to upper-case hex pairs joined by colons, or null
+ */
+export function normalizeFingerprint(value) {
+  const hex = String(value || '').replace(/[^0-9a-f]/gi, '').toUpperCase();
+  return hex.length === 64 ? hex.match(/../g).join(':') : null;
+}
+
+/**
+ * Camera base URL (scheme://host:port), host in brackets for IPv6
+ */
+export function cameraBaseUrl(scheme, host, port) {
+  const name = host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+  return `${scheme}://${name}:${port}`;
+}
+
+/**
+ * Split /SCHEME/HOST/PORT/path?query (a mounted route's req.url), or null
+ * (also for a malformed escape in the scheme, host or port)
+ *
+ * Only the scheme, host and port are decoded; the camera path is passed on
+ * as sent, so an escaped ?, / or # stays part of the path.
+ */
+export function parseCameraPath(url) {
+  const [pathOnly, queryString] = url.split('?');
+  const [rawScheme, rawHost, rawPort, ...rest] = pathOnly.split('/').filter(p => p);
+  let scheme, host, port;
+  try {
+    [scheme, host, port] = [rawScheme, rawHost, rawPort].map(part => part && decodeURIComponent(part));
+  } catch {
+    return null;
+  }
+  if (!CAMERA_SCHEMES.includes(scheme) || !host || !port) return null;
+  return { scheme, host, port, path: '/' + rest.join('/'), query: queryString };
+}
+
+/**
+ * undici Agent options for a camera's TLS settings ({} for plain HTTP or default checks)
+ */
+export function tlsAgentOptions(scheme, tls = {}) {
+  const fingerprint = normalizeFingerprint(tls.fingerprint);
+  if (scheme !== 'https' || (!tls.allowSelfSigned && !fingerprint)) return {};
+
+  // A pinned fingerprint replaces the CA check
+  const baseConnect = buildConnector({ rejectUnauthorized: false, maxCachedSessions: fingerprint ? 0 : 100 });
+  return {
+    connect(options, callback) {
+      baseConnect(options, (error, socket) => {
+        if (error || !fingerprint) return callback(error, socket);
+
+        const actual = socket.getPeerCertificate()?.fingerprint256;
+        if (actual !== fingerprint) {
+          socket.destroy();
+          const mismatch = new Error(`Certificate fingerprint ${actual} does not match the pinned ${fingerprint}`);
+          mismatch.code = 'CERT_FINGERPRINT_MISMATCH';
+          return callback(mismatch);
+        }
+        callback(null, socket);
+      });
+    }
+  };
+}
+
+/**
+ * Fetch options for a camera's TLS settings ({} for plain HTTP or default checks)
+ */
+export function tlsFetchOptions(scheme, tls = {}) {
+  const options = tlsAgentOptions(scheme, tls);
+  if (!options.connect) return {};
+
+  const key = normalizeFingerprint(tls.fingerprint) || 'self-signed';
+  if (!agents.has(key)) {
+    agents.set(key, new Agent(options));
+  }
+  return { dispatcher: agents.get(key) };
+}
+
+/**
+ * SHA-256 fingerprint of the certificate a host presents, or null
+ */
+function peerFingerprint(host, port) {
+  return new Promise((resolve) => {
+    // SNI only takes host names
+    const socket = connect({ host, port: Number(port), rejectUnauthorized: false, ...(!isIP(host) && { servername: host }) });
+    const done = (fingerprint) => {
+      socket.destroy();
+      resolve(fingerprint);
+    };
+    socket.setTimeout(FINGERPRINT_TIMEOUT_MS, () => done(null));
+    socket.once('secureConnect', () => done(socket.getPeerCertificate()?.fingerprint256 || null));
+    socket.once('error', () => done(null));
+  });
+}
+
+// Certificate verification error codes (OpenSSL / Node)
+const UNTRUSTED_CODES = [
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'ERR_TLS_CERT_ALTNAME_INVALID'
+];
+const EXPIRED_CODES = ['CERT_HAS_EXPIRED', 'CERT_NOT_YET_VALID'];
+
+/**
+ * Describe a failed camera request
+ *
+ * @returns { status, code, error, tls? }: TLS problems carry { code, fingerprint }
+ *          and a message that says how to fix them
+ */
+export async function describeFetchError(error, scheme, host, port) {
+  // Already described (e.g. a full queue in camera-pool.mjs)
+  if (error?.status && error?.code) {
+    return { status: error.status, code: error.code, error: error.message };
+  }
+
+  // fetch wraps the socket error in a generic "fetch failed"
+  const cause = error?.cause ?? error;
+  const code = cause?.code || '';
+
+  if (scheme === 'https') {
+    if (code === 'CERT_FINGERPRINT_MISMATCH') {
+      return { status: 502, code: 'CAMERA_TLS', error: `TLS: ${cause.message}. Update the pinned fingerprint if the camera's certificate changed.`, tls: { code } };
+    }
+    if (UNTRUSTED_CODES.includes(code) || EXPIRED_CODES.includes(code)) {
+      const fingerprint = await peerFingerprint(host, port);
+      const problem = EXPIRED_CODES.includes(code)
+        ? 'certificate has expired or is not yet valid'
+        : code === 'ERR_TLS_CERT_ALTNAME_INVALID'
+          ? 'certificate does not match the camera host'
+          : 'certificate is self-signed or not from a trusted CA';
+      return {
+        status: 502,
+        code: 'CAMERA_TLS',
+        error: `TLS: camera ${problem} (${code}). Enable "Accept self-signed certificate" or pin its fingerprint${fingerprint ? ` ${fingerprint}` : ''}.`,
+        tls: { code, fingerprint }
+      };
+    }
+    if (code === 'EPROTO' || /wrong version number|packet length too long/i.test(cause?.message || '')) {
+      return { status: 502, code: 'CAMERA_TLS', error: `TLS: camera did not answer HTTPS on port ${port}. Turn off HTTPS or use the camera's HTTPS port.`, tls: { code: code || 'EPROTO' } };
+    }
+  }
+
+  if (code === 'ECONNRESET' && scheme === 'http') {
+    return { status: 502, code: 'CAMERA_UNREACHABLE', error: `Camera closed the connection on port ${port}; if it only serves HTTPS, enable HTTPS.` };
+  }
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+    return { status: 502, code: 'CAMERA_UNREACHABLE', error: `Camera host ${host} not found. Check the host name or use the camera's IP address.` };
+  }
+  if (code === 'UND_ERR_CONNECT_TIMEOUT' || code === 'ETIMEDOUT') {
+    return { status: 504, code: 'CAMERA_TIMEOUT', error: `Camera at ${host}:${port} did not accept the connection in time. Check that it is powered on and the address is right.` };
+  }
+  if (code === 'ECONNREFUSED') {
+    return { status: 502, code: 'CAMERA_UNREACHABLE', error: `Camera refused the connection on port ${port}. Check the port (usually 80 for HTTP, 443 for HTTPS).` };
+  }
+  return { status: 502, code: 'CAMERA_UNREACHABLE', error: `Camera not reachable: ${cause?.message || error?.message || 'request failed'}` };
+}
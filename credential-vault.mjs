@@ -0,0 +1,330 @@
+/**
+ * Credential Vault
+ *
+ * Keeps camera credentials on the server so the browser sends a password
+ * once, when it connects. POST /session/cameras checks the credentials
+ * against the camera, stores them encrypted (AES-256-GCM) in a local file
+ * (with the camera's TLS options, see camera-tls.mjs) and sets an opaque,
+ * expiring, HttpOnly session cookie. The proxy, event, download and firmware
+ * handlers look the credentials up by that cookie and the camera's
+ * host/port, and do the digest authentication themselves. The browser
+ * does not keep the password after connecting: moving a camera to another
+ * address logs in with sameAs (the session's credentials for the old
+ * address), and password changes of the logged-in account update the vault
+ * (camera-accounts.mjs).
+ *
+ *   VAULT_FILE         Encrypted vault file (default data/vault.json)
+ *   VAULT_KEY          Secret the encryption key is derived from; without it
+ *                      a random key is kept next to the vault (VAULT_FILE.key)
+ *   SESSION_TTL_HOURS  Session lifetime from the last login (default 12)
+ *
+ * The vault only holds session token hashes, so a stolen file cannot be
+ * replayed as a cookie. Shared by server.mjs (production) and
+ * proxy-server.mjs (development).
+ */
+
+import DigestClient from 'digest-fetch';
+import { cameraBaseUrl, tlsFetchOptions, describeFetchError, normalizeFingerprint } from './camera-tls.mjs';
+import { sendFailure, refusalFailure } from './camera-errors.mjs';
+import { randomBytes, createCipheriv, createDecipheriv, createHash, scryptSync } from 'crypto';
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+const VAULT_FILE = resolve(process.env.VAULT_FILE || 'data/vault.json');
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+const SESSION_COOKIE = 'ipcam_session';
+const VERIFY_TIMEOUT_MS = 10000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; RetroIPCam/1.2)';
+
+// Decrypted vault, loaded on first use:
+// { sessions: { [tokenHash]: { expiresAt, cameras: { 'host:port': { username, password, tls: { allowSelfSigned, fingerprint } } } } } }
+let vault = null;
+let key = null;
+
+/**
+ * Encryption key: derived from VAULT_KEY, or a random key file created on first run
+ */
+function vaultKey() {
+  if (key) return key;
+
+  if (process.env.VAULT_KEY) {
+    key = scryptSync(process.env.VAULT_KEY, 'retro-ipcam-vault', 32);
+    return key;
+  }
+
+  const keyFile = `${VAULT_FILE}.key`;
+  if (existsSync(keyFile)) {
+    key = Buffer.from(readFileSync(keyFile, 'utf8').trim(), 'hex');
+  } else {
+    key = randomBytes(32);
+    mkdirSync(dirname(keyFile), { recursive: true });
+    writeFileSync(keyFile, key.toString('hex'), { mode: 0o600 });
+    console.log(`[VAULT] Created encryption key ${keyFile}`);
+  }
+  return key;
+}
+
+function encrypt(value) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', vaultKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return {
+    version: 1,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function decrypt(payload) {
+  const decipher = createDecipheriv('aes-256-gcm', vaultKey(), Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+  const data = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+  return JSON.parse(data.toString('utf8'));
+}
+
+/**
+ * Load the vault file (an unreadable vault starts empty: everyone logs in again)
+ */
+function loadVault() {
+  if (vault) return vault;
+
+  vault = { sessions: {} };
+  if (existsSync(VAULT_FILE)) {
+    try {
+      vault = decrypt(JSON.parse(readFileSync(VAULT_FILE, 'utf8')));
+    } catch (error) {
+      console.warn(`[VAULT] Cannot read ${VAULT_FILE} (${error.message}), starting with no sessions`);
+    }
+  }
+  purgeExpired();
+  return vault;
+}
+
+/**
+ * Write the vault atomically (temp file + rename)
+ */
+function saveVault() {
+  purgeExpired();
+  mkdirSync(dirname(VAULT_FILE), { recursive: true });
+  const temp = `${VAULT_FILE}.tmp`;
+  writeFileSync(temp, JSON.stringify(encrypt(vault)), { mode: 0o600 });
+  renameSync(temp, VAULT_FILE);
+}
+
+function purgeExpired() {
+  const now = Date.now();
+  for (const [hash, session] of Object.entries(vault.sessions)) {
+    if (session.expiresAt <= now) delete vault.sessions[hash];
+  }
+}
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+const cameraKey = (host, port) => `${String(host).toLowerCase()}:${Number(port) || 80}`;
+
+/**
+ * A cookie's value from the Cookie header, or null (also for a malformed value)
+ */
+export function readCookie(req, name) {
+  for (const part of String(req.headers.cookie || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+const sessionToken = (req) => readCookie(req, SESSION_COOKIE);
+
+/**
+ * The request's live session, or null
+ */
+function currentSession(req) {
+  const token = sessionToken(req);
+  if (!token) return null;
+
+  const session = loadVault().sessions[hashToken(token)];
+  return session && session.expiresAt > Date.now() ? session : null;
+}
+
+/**
+ * Stored credentials for a camera in the request's session, or null
+ */
+export function getCameraCredentials(req, host, port) {
+  return currentSession(req)?.cameras[cameraKey(host, port)] ?? null;
+}
+
+// Answer for a camera request without stored credentials
+export const NO_SESSION_FAILURE = {
+  status: 401,
+  code: 'SESSION_REQUIRED',
+  error: 'Not logged in to this camera, or the session expired. Connect again.'
+};
+
+/**
+ * Store a new password for a camera account in the request's session
+ * (after the camera accepted the change; other accounts are left alone)
+ */
+export function updateCameraPassword(req, host, port, username, password) {
+  const credentials = getCameraCredentials(req, host, port);
+  if (credentials?.username !== username || typeof password !== 'string') return;
+
+  credentials.password = password;
+  saveVault();
+  console.log(`[VAULT] Updated password for ${cameraKey(host, port)}`);
+}
+
+/**
+ * Credentials for a camera, or answer 401 and return null
+ */
+export function requireCameraCredentials(req, res, host, port) {
+  const credentials = getCameraCredentials(req, host, port);
+  if (!credentials) {
+    sendFailure(res, NO_SESSION_FAILURE);
+  }
+  return credentials;
+}
+
+/**
+ * Check credentials against the camera (magicBox getDeviceType)
+ *
+ * @returns null when accepted, else a failure for sendFailure()
+ */
+async function verifyCredentials(scheme, host, port, { username, password, tls }) {
+  try {
+    const client = new DigestClient(username, password);
+    const response = await client.fetch(`${cameraBaseUrl(scheme, host, port)}/cgi-bin/magicBox.cgi?action=getDeviceType`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+      ...tlsFetchOptions(scheme, tls)
+    });
+
+    if (response.status === 401) {
+      return { status: 401, code: 'CAMERA_AUTH', cameraStatus: 401, error: 'Camera rejected the username or password' };
+    }
+    const text = await response.text();
+    if (!response.ok) {
+      return refusalFailure(response, 'the device type request', text);
+    }
+    // Something answered, but not the Amcrest/Dahua CGI API (e.g. a router or another camera brand)
+    if (!/^type=/m.test(text)) {
+      return {
+        status: 502,
+        code: 'UNEXPECTED_RESPONSE',
+        error: `${host}:${port} answered, but not like an Amcrest or Dahua camera (no device type). Check the address and port.`
+      };
+    }
+    return null;
+  } catch (error) {
+    if (error.name === 'TimeoutError') {
+      return { status: 504, code: 'CAMERA_TIMEOUT', error: `Camera did not answer within ${VERIFY_TIMEOUT_MS / 1000} seconds` };
+    }
+    return describeFetchError(error, scheme, host, port);
+  }
+}
+
+/**
+ * Express handler for POST /session/cameras
+ * (JSON: host, port, secure, username, password, allowSelfSigned, fingerprint)
+ *
+ * Verifies the credentials, stores them in the session (creating one if
+ * needed) and (re)sets the session cookie. Instead of username and password,
+ * sameAs: { host, port } reuses the session's credentials for that camera
+ * (the same camera at a new address).
+ */
+export async function openCameraSession(req, res) {
+  const { host, port = 80, secure = false, allowSelfSigned = false, fingerprint = '', sameAs } = req.body || {};
+  let { username, password = '' } = req.body || {};
+  const portNumber = Number(port);
+  const scheme = secure ? 'https' : 'http';
+
+  const invalid = (error) => sendFailure(res, { status: 400, code: 'INVALID_REQUEST', error });
+
+  if (sameAs) {
+    const existing = getCameraCredentials(req, sameAs.host, sameAs.port);
+    if (!existing) {
+      return sendFailure(res, NO_SESSION_FAILURE);
+    }
+    ({ username, password } = existing);
+  }
+
+  if (typeof host !== 'string' || !/^[\w.\-:\[\]]+$/.test(host)) {
+    return invalid('Invalid camera host');
+  }
+  if (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+    return invalid('Invalid camera port');
+  }
+  if (typeof username !== 'string' || !username || typeof password !== 'string') {
+    return invalid('Username and password are required');
+  }
+  if (fingerprint && !normalizeFingerprint(fingerprint)) {
+    return invalid('Certificate fingerprint must be a SHA-256 hash (64 hex digits)');
+  }
+
+  const credentials = {
+    username,
+    password,
+    tls: { allowSelfSigned: !!allowSelfSigned, fingerprint: normalizeFingerprint(fingerprint) }
+  };
+  const rejected = await verifyCredentials(scheme, host, portNumber, credentials);
+  if (rejected) {
+    console.warn(`[VAULT] Login to ${scheme}://${host}:${portNumber} as ${username} refused: ${rejected.error}`);
+    return sendFailure(res, rejected);
+  }
+
+  const sessions = loadVault().sessions;
+  let token = sessionToken(req);
+  let session = token ? sessions[hashToken(token)] : null;
+  if (!session || session.expiresAt <= Date.now()) {
+    token = randomBytes(32).toString('base64url');
+    session = { cameras: {} };
+    sessions[hashToken(token)] = session;
+  }
+
+  session.cameras[cameraKey(host, portNumber)] = credentials;
+  session.expiresAt = Date.now() + SESSION_TTL_MS;
+  saveVault();
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    path: '/',
+    maxAge: SESSION_TTL_MS
+  });
+  console.log(`[VAULT] Stored credentials for ${host}:${portNumber}`);
+  res.json({ host, port: portNumber, username, expiresAt: new Date(session.expiresAt).toISOString() });
+}
+
+/**
+ * Express handler for DELETE /session/cameras/:host/:port (forget one camera)
+ */
+export function closeCameraSession(req, res) {
+  const session = currentSession(req);
+  const key = cameraKey(req.params.host, req.params.port);
+  if (session?.cameras[key]) {
+    delete session.cameras[key];
+    saveVault();
+    console.log(`[VAULT] Removed credentials for ${key}`);
+  }
+  res.status(204).end();
+}
+
+/**
+ * Express handler for DELETE /session (log out of every camera)
+ */
+export function endSession(req, res) {
+  const token = sessionToken(req);
+  const sessions = loadVault().sessions;
+  if (token && sessions[hashToken(token)]) {
+    delete sessions[hashToken(token)];
+    saveVault();
+  }
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+  res.status(204).end();
+}
@@ -0,0 +1,217 @@
+/**
+ * Camera Event Relay
+ *
+ * Subscribes to eventManager.cgi?action=attach (a long-lived
+ * multipart/x-mixed-replace stream) and re-emits each event to the
+ * browser as Server-Sent Events:
+ *
+ *   event: camera-event
+ *   data: {"code":"VideoMotion","action":"Start","index":0}
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { requireCameraCredentials } from './credential-vault.mjs';
+import { cameraBaseUrl, describeFetchError } from './camera-tls.mjs';
+import { cameraFetch } from './camera-pool.mjs';
+import { sendFailure, refusalFailure } from './camera-errors.mjs';
+
+// Time between camera heartbeats, and how long without data before giving up
+// (three missed heartbeats)
+const HEARTBEAT_INTERVAL_MS = 10000;
+const IDLE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Incremental multipart parser
+ *
+ * Feed decoded text with push(); onPart is called with the body of each
+ * complete part (part headers stripped). Some firmware omits the blank line
+ * after the part headers, so leading Content-* lines are stripped too.
+ */
+export function createMultipartParser(boundary, onPart) {
+  const marker = `--${boundary}`;
+  let buffer = '';
+
+  const emit = (raw) => {
+    let part = raw.replace(/^--/, '').replace(/^\s+/, '');
+    const headerEnd = part.search(/\r?\n\r?\n/);
+    if (headerEnd >= 0 && /^content-/i.test(part)) {
+      part = part.slice(headerEnd).trim();
+    } else {
+      part = part.replace(/^(content-[\w-]+:[^\n]*\n)+/i, '').trim();
+    }
+    if (part) onPart(part);
+  };
+
+  return {
+    push(text) {
+      buffer += text;
+      let index;
+      while ((index = buffer.indexOf(marker)) >= 0) {
+        emit(buffer.slice(0, index));
+        buffer = buffer.slice(index + marker.length);
+      }
+    },
+    flush() {
+      emit(buffer);
+      buffer = '';
+    }
+  };
+}
+
+/**
+ * Parse one part body into events
+ *
+ * A part holds one or more "Code=...;action=...;index=...[;data={json}]"
+ * records, or the keep-alive text "Heartbeat".
+ */
+export function parseEventPart(body) {
+  return body
+    .split(/\r?\n(?=Code=)/)
+    .map(record => record.trim())
+    .filter(record => record.startsWith('Code='))
+    .map(parseEventRecord);
+}
+
+function parseEventRecord(record) {
+  const event = {};
+  let rest = record;
+
+  while (rest) {
+    const equals = rest.indexOf('=');
+    if (equals < 0) break;
+    const key = rest.slice(0, equals);
+    rest = rest.slice(equals + 1);
+
+    // data is a JSON body that may itself contain ';'
+    if (key === 'data') {
+      try {
+        event.data = JSON.parse(rest);
+      } catch {
+        event.data = rest;
+      }
+      break;
+    }
+
+    const separator = rest.indexOf(';');
+    const value = separator >= 0 ? rest.slice(0, separator) : rest;
+    rest = separator >= 0 ? rest.slice(separator + 1) : '';
+
+    if (key === 'Code') event.code = value;
+    else if (key === 'index') event.index = Number(value);
+    else event[key] = value;
+  }
+
+  return event;
+}
+
+/**
+ * Build the attach URL for a list of event codes ("All" when empty)
+ */
+function attachUrl(scheme, host, port, codes) {
+  const list = codes.length > 0 ? codes : ['All'];
+  const encodedCodes = `[${list.map(encodeURIComponent).join('%2C')}]`;
+  return `${cameraBaseUrl(scheme, host, port)}/cgi-bin/eventManager.cgi?action=attach&codes=${encodedCodes}&heartbeat=${HEARTBEAT_INTERVAL_MS / 1000}`;
+}
+
+/**
+ * Express handler: GET /events/:scheme/:host/:port?codes=VideoMotion,VideoBlind
+ *
+ * Credentials and TLS options come from the session, as for /proxy.
+ */
+export async function relayEvents(req, res) {
+  const { scheme, host, port } = req.params;
+  const codes = String(req.query.codes || '')
+    .split(',')
+    .map(code => code.trim())
+    .filter(code => /^\w+$/.test(code));
+  const targetUrl = attachUrl(scheme, host, port, codes);
+
+  const credentials = requireCameraCredentials(req, res, host, port);
+  if (!credentials) return;
+
+  console.log(`[EVENTS] Attach ${targetUrl}`);
+
+  const controller = new AbortController();
+  let idleTimer = null;
+
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      console.warn(`[EVENTS] No data from ${host} for ${IDLE_TIMEOUT_MS / 1000}s, closing`);
+      controller.abort();
+    }, IDLE_TIMEOUT_MS);
+  };
+
+  // Stop the camera subscription when the browser goes away
+  req.on('close', () => {
+    clearTimeout(idleTimer);
+    controller.abort();
+  });
+
+  try {
+    const response = await cameraFetch({ scheme, host, port }, credentials, targetUrl, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; RetroIPCam/1.2)'
+      },
+      signal: controller.signal
+    }, { stream: true });
+
+    if (!response.ok || !response.body) {
+      return sendFailure(res, refusalFailure(response, 'event subscription', await response.text()));
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1] || 'myboundary';
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    const parser = createMultipartParser(boundary, (part) => {
+      if (/^heartbeat$/i.test(part)) {
+        res.write(': heartbeat\n\n');
+        return;
+      }
+      for (const event of parseEventPart(part)) {
+        res.write(`event: camera-event\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    });
+
+    const decoder = new TextDecoder();
+    resetIdleTimer();
+    for await (const chunk of response.body) {
+      resetIdleTimer();
+      parser.push(decoder.decode(chunk, { stream: true }));
+    }
+    parser.flush();
+
+    clearTimeout(idleTimer);
+    res.write('event: end\ndata: {}\n\n');
+    res.end();
+    console.log(`[EVENTS] Stream from ${host} ended`);
+  } catch (error) {
+    clearTimeout(idleTimer);
+
+    if (req.destroyed) {
+      console.log(`[EVENTS] Client detached from ${host}`);
+      return;
+    }
+
+    const failure = controller.signal.aborted
+      ? { status: 504, code: 'CAMERA_TIMEOUT', error: 'Camera stopped sending events' }
+      : await describeFetchError(error, scheme, host, port);
+    console.error(`[EVENTS ERROR]`, failure.error);
+    if (res.headersSent) {
+      res.write(`event: error\ndata: ${JSON.stringify({ error: failure.error, code: failure.code })}\n\n`);
+      res.end();
+    } else {
+      sendFailure(res, failure);
+    }
+  }
+}
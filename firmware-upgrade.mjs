@@ -0,0 +1,341 @@
+/**
+ * Firmware Upgrade
+ *
+ * Streams a firmware package from the browser to
+ * upgrader.cgi?action=uploadFirmware as the multipart "upgrade" field, then
+ * polls upgrader.cgi?action=getState and relays the state as Server-Sent
+ * Events until the upgrade finishes:
+ *
+ *   event: uploaded   data: {}
+ *   event: state      data: {"state":"Upgrading","progress":45}
+ *   event: end        data: {"state":"Succeeded"}
+ *
+ * The package header (first 64 KiB) must name the camera's device type
+ * (magicBox.cgi?action=getDeviceType), so firmware for another model is
+ * refused (FIRMWARE_MISMATCH) before any of it reaches the camera, as is a
+ * file that is not a firmware package (FIRMWARE_INVALID). When the camera
+ * does not report its device type the header cannot be compared: the check
+ * answers a warning and the upload needs the x-firmware-confirmed: 1 header,
+ * or is refused with FIRMWARE_UNCONFIRMED. POST .../check runs the same check
+ * on just the header, so the UI can refuse a file or ask before uploading.
+ *
+ * The upload holds one of the camera's pool slots (see camera-pool.mjs) from
+ * the device type request until the camera has taken the file; each getState
+ * poll then queues for a slot like any other request.
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { getCameraCredentials, requireCameraCredentials, NO_SESSION_FAILURE } from './credential-vault.mjs';
+import { cameraBaseUrl, describeFetchError } from './camera-tls.mjs';
+import { cameraError, sendFailure, refusalFailure } from './camera-errors.mjs';
+import { cameraFetch, withCameraSlot } from './camera-pool.mjs';
+
+export const FIRMWARE_HEADER_BYTES = 64 * 1024;
+const MAX_FIRMWARE_BYTES = 256 * 1024 * 1024;
+
+// getState polling; the camera reboots (and stops answering) near the end
+const STATE_POLL_INTERVAL_MS = 2000;
+const STATE_POLL_TIMEOUT_MS = 15 * 60 * 1000;
+// The upload's device type request holds the camera slot, so it may not stall
+const DEVICE_TYPE_TIMEOUT_MS = 10000;
+const FINAL_STATES = ['Succeeded', 'Failed', 'Invalid', 'DownloadFailed', 'Cancelled', 'NotEnoughMemory'];
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; RetroIPCam/1.2)';
+
+/**
+ * Check a firmware package header against the camera's device type
+ *
+ * Packages are zip archives (magic "PK", or "DH" on Dahua builds) whose
+ * leading entries carry the device class in plain text.
+ *
+ * @returns { error, code } if the file must not be uploaded, { warning } if
+ *          the user has to confirm it is the right firmware, or {}
+ */
+export function checkFirmwareHeader(header, deviceType) {
+  if (!header || header.length < 4) {
+    return { error: 'File is too small to be a firmware package', code: 'FIRMWARE_INVALID' };
+  }
+
+  const magic = header.subarray(0, 2).toString('latin1');
+  if (magic !== 'PK' && magic !== 'DH') {
+    return { error: 'Not a firmware package (unknown file header)', code: 'FIRMWARE_INVALID' };
+  }
+
+  if (!deviceType) {
+    return { warning: 'Camera did not report its device type, so the package could not be compared with it' };
+  }
+
+  const normalize = (text) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const text = (header.toString('latin1').match(/[\x20-\x7e]{4,}/g) || []).join(' ');
+  if (!normalize(text).includes(normalize(deviceType))) {
+    return {
+      error: `Firmware is not for this camera: package header does not match device type ${deviceType}`,
+      code: 'FIRMWARE_MISMATCH'
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Device type reported by the camera (the UI's SystemInfo.deviceType)
+ *
+ * @param send (url, options) => Promise<Response>, the fetch to use
+ */
+async function fetchDeviceType(send, baseUrl) {
+  const response = await send(`${baseUrl}/cgi-bin/magicBox.cgi?action=getDeviceType`, {
+    headers: { 'User-Agent': USER_AGENT }
+  });
+
+  if (!response.ok) {
+    const failure = refusalFailure(response, 'device type request', await response.text());
+    throw cameraError(failure.status, failure.code, failure.error);
+  }
+
+  return (await response.text()).match(/^type=(.*)$/m)?.[1]?.trim() || '';
+}
+
+/**
+ * Read up to `size` bytes from a request stream iterator
+ */
+async function readHeader(iterator, size) {
+  const chunks = [];
+  let length = 0;
+
+  while (length < size) {
+    const { value, done } = await iterator.next();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Express handler for POST /firmware/:scheme/:host/:port/check (raw body: package header)
+ */
+export async function checkFirmware(req, res) {
+  const { scheme, host, port } = req.params;
+  const credentials = requireCameraCredentials(req, res, host, port);
+  if (!credentials) return;
+  const header = Buffer.isBuffer(req.body) ? req.body.subarray(0, FIRMWARE_HEADER_BYTES) : Buffer.alloc(0);
+
+  try {
+    const send = (url, options) => cameraFetch({ scheme, host, port }, credentials, url, options);
+    const deviceType = await fetchDeviceType(send, cameraBaseUrl(scheme, host, port));
+    const { error, code, warning } = checkFirmwareHeader(header, deviceType);
+    res.status(error ? 422 : 200).json({
+      deviceType,
+      ...(error && { error, code }),
+      ...(warning && { warning })
+    });
+  } catch (error) {
+    const failure = await describeFetchError(error, scheme, host, port);
+    console.error(`[FIRMWARE ERROR]`, failure.error);
+    sendFailure(res, failure);
+  }
+}
+
+/**
+ * Express handler for POST /firmware/:scheme/:host/:port (raw body: the package)
+ *
+ * The x-firmware-name header carries the file name sent to the camera,
+ * x-firmware-confirmed: 1 that the user accepted the check's warning.
+ */
+export async function uploadFirmware(req, res) {
+  const { scheme, host, port } = req.params;
+  const baseUrl = cameraBaseUrl(scheme, host, port);
+  const size = Number(req.headers['content-length']);
+
+  // Drain the body so the browser receives the error instead of a reset
+  const reject = (failure) => {
+    req.resume();
+    sendFailure(res, failure);
+  };
+
+  if (!size) {
+    return reject({ status: 411, code: 'INVALID_REQUEST', error: 'Firmware upload needs a Content-Length' });
+  }
+  if (size > MAX_FIRMWARE_BYTES) {
+    return reject({ status: 413, code: 'INVALID_REQUEST', error: `Firmware file is larger than ${MAX_FIRMWARE_BYTES / 1024 / 1024} MB` });
+  }
+
+  const credentials = getCameraCredentials(req, host, port);
+  if (!credentials) {
+    return reject(NO_SESSION_FAILURE);
+  }
+  const target = { scheme, host, port };
+  const name = String(req.headers['x-firmware-name'] || 'firmware.bin').replace(/[^\w.\-]/g, '_');
+  const confirmed = req.headers['x-firmware-confirmed'] === '1';
+
+  // Abort the camera requests if the browser goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  const iterator = req[Symbol.asyncIterator]();
+
+  try {
+    // One slot and digest client from the device type request to the end of
+    // the upload: the request primes the nonce, so the upload can be sent
+    // authenticated up front (a streamed body cannot be replayed after a 401)
+    const uploaded = await withCameraSlot(target, credentials, async ({ client, dispatcher }) => {
+      const deviceTypeTimeout = AbortSignal.timeout(DEVICE_TYPE_TIMEOUT_MS);
+      const send = (url, options) => client.fetch(url, {
+        ...options,
+        signal: AbortSignal.any([controller.signal, deviceTypeTimeout]),
+        dispatcher
+      });
+      let deviceType;
+      try {
+        deviceType = await fetchDeviceType(send, baseUrl);
+      } catch (error) {
+        if (deviceTypeTimeout.aborted && !controller.signal.aborted) {
+          throw cameraError(504, 'CAMERA_TIMEOUT', `Camera did not report its device type within ${DEVICE_TYPE_TIMEOUT_MS / 1000} seconds`);
+        }
+        throw error;
+      }
+
+      const header = await readHeader(iterator, FIRMWARE_HEADER_BYTES);
+      const { error, code, warning } = checkFirmwareHeader(header, deviceType);
+      if (error) {
+        console.warn(`[FIRMWARE] Refused ${name} for ${host}: ${error}`);
+        reject({ status: 422, code, error });
+        return false;
+      }
+      if (warning && !confirmed) {
+        console.warn(`[FIRMWARE] Refused unconfirmed ${name} for ${host}: ${warning}`);
+        reject({ status: 422, code: 'FIRMWARE_UNCONFIRMED', error: `${warning}. Confirm the upgrade to upload it anyway.` });
+        return false;
+      }
+      if (warning) {
+        console.warn(`[FIRMWARE] Uploading ${name} to ${host} despite warning (confirmed): ${warning}`);
+      }
+
+      console.log(`[FIRMWARE] Uploading ${name} (${size} bytes) to ${host}`);
+
+      const boundary = `----RetroIPCamFirmware${Date.now().toString(16)}`;
+      const preamble = Buffer.from(
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="upgrade"; filename="${name}"\r\n` +
+        `Content-Type: application/octet-stream\r\n\r\n`
+      );
+      const epilogue = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+      async function* body() {
+        yield preamble;
+        yield header;
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+        yield epilogue;
+      }
+
+      const uploadUrl = `${baseUrl}/cgi-bin/upgrader.cgi?action=uploadFirmware`;
+      const response = await fetch(uploadUrl, client.addAuth(uploadUrl, {
+        method: 'POST',
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Content-Type': `multipart/form-data; boundary=${boundary}`,
+          'Content-Length': String(preamble.length + size + epilogue.length)
+        },
+        body: body(),
+        duplex: 'half',
+        signal: controller.signal,
+        dispatcher
+      }));
+      // client.fetch counts its requests itself; addAuth alone does not, and
+      // the client goes back to the pool after this
+      client.digest.nc++;
+      const text = (await response.text()).trim();
+
+      if (!response.ok || !/^ok/i.test(text)) {
+        sendFailure(res, refusalFailure(response, 'firmware', text));
+        return false;
+      }
+      return true;
+    }, { signal: controller.signal });
+    if (!uploaded) return;
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write('event: uploaded\ndata: {}\n\n');
+
+    const final = await pollUpgradeState(target, credentials, baseUrl, controller.signal, (state) => {
+      res.write(`event: state\ndata: ${JSON.stringify(state)}\n\n`);
+    });
+    console.log(`[FIRMWARE] Upgrade of ${host} finished: ${final.state}`);
+    res.write(`event: end\ndata: ${JSON.stringify(final)}\n\n`);
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`[FIRMWARE] Client disconnected from upgrade of ${host}`);
+      return;
+    }
+
+    const failure = await describeFetchError(error, scheme, host, port);
+    console.error(`[FIRMWARE ERROR]`, failure.error);
+    if (res.headersSent) {
+      res.write(`event: error\ndata: ${JSON.stringify({ error: failure.error, code: failure.code })}\n\n`);
+      res.end();
+    } else {
+      reject(failure);
+    }
+  }
+}
+
+/**
+ * Poll getState until a final state, the camera returns from its reboot, or timeout
+ *
+ * @returns Final state ({ state, progress?, rebooted? })
+ */
+async function pollUpgradeState(target, credentials, baseUrl, signal, onState) {
+  const deadline = Date.now() + STATE_POLL_TIMEOUT_MS;
+  let unreachable = false;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, STATE_POLL_INTERVAL_MS));
+    if (signal.aborted) throw new Error('Upgrade monitoring cancelled');
+
+    try {
+      const response = await cameraFetch(target, credentials, `${baseUrl}/cgi-bin/upgrader.cgi?action=getState`, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal
+      }, { timeoutMs: STATE_POLL_INTERVAL_MS * 2 });
+      const text = await response.text();
+      const progress = text.match(/state\.Progress=(\d+)/)?.[1];
+      const state = {
+        state: text.match(/state\.State=(\w+)/)?.[1] || 'Unknown',
+        ...(progress !== undefined && { progress: Number(progress) })
+      };
+
+      // Answering again after dropping off means the camera rebooted into the new firmware
+      if (unreachable) {
+        return { ...state, rebooted: true };
+      }
+
+      onState(state);
+      if (FINAL_STATES.includes(state.state)) {
+        return state;
+      }
+    } catch (error) {
+      if (signal.aborted) throw error;
+      // A full queue says nothing about the camera; ask again next round
+      if (error.code === 'CAMERA_BUSY') continue;
+      if (!unreachable) {
+        unreachable = true;
+        onState({ state: 'Rebooting' });
+      }
+    }
+  }
+
+  return { state: unreachable ? 'Rebooting' : 'Unknown', timedOut: true };
+}
@@ -0,0 +1,117 @@
+/**
+ * Media Download
+ *
+ * Streams recordings and snapshots off the camera's SD card as browser
+ * downloads. The browser posts a form (so the download is handled natively
+ * and the file never sits in page memory; the session cookie goes with it)
+ * with:
+ *
+ *   path       FilePath from mediaFileFind.cgi -> /cgi-bin/RPC_Loadfile<path>
+ *   or
+ *   channel, startTime, endTime, subtype
+ *              time range -> /cgi-bin/loadfile.cgi?action=startLoad
+ *   name       Optional download file name
+ *
+ * Shared by server.mjs (production) and proxy-server.mjs (development).
+ */
+
+import { streamResponse } from './camera-proxy.mjs';
+import { requireCameraCredentials } from './credential-vault.mjs';
+import { cameraBaseUrl, describeFetchError } from './camera-tls.mjs';
+import { cameraFetch } from './camera-pool.mjs';
+import { sendFailure, refusalFailure } from './camera-errors.mjs';
+
+// Recording paths live on the storage mount (/mnt/sd, /mnt/dvr, ...)
+const FILE_PATH_PATTERN = /^\/mnt\/[^?#\\]+$/;
+const CAMERA_TIME_PATTERN = /^\d{4}-\d{1,2}-\d{1,2} \d{1,2}:\d{2}:\d{2}$/;
+
+/**
+ * Build the camera download URL from the form fields
+ *
+ * @returns URL string, or null if the fields are invalid
+ */
+export function buildDownloadUrl(baseUrl, fields) {
+  if (fields.path) {
+    if (!FILE_PATH_PATTERN.test(fields.path) || fields.path.includes('..')) return null;
+    // Brackets and @ in recording names must reach the camera unencoded
+    return `${baseUrl}/cgi-bin/RPC_Loadfile${fields.path}`;
+  }
+
+  const { channel, startTime, endTime, subtype = '0' } = fields;
+  if (!/^\d+$/.test(channel || '') || !/^\d+$/.test(subtype)) return null;
+  if (!CAMERA_TIME_PATTERN.test(startTime || '') || !CAMERA_TIME_PATTERN.test(endTime || '')) return null;
+
+  // Spaces as %20 (not +), as in the API examples
+  const query = Object.entries({ action: 'startLoad', channel, startTime, endTime, subtype, Types: 'dav' })
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `${baseUrl}/cgi-bin/loadfile.cgi?${query}`;
+}
+
+/**
+ * Download file name: the given name, else the last path segment
+ */
+function downloadName(fields) {
+  const name = fields.name || (fields.path || '').split('/').pop() || 'recording.dav';
+  return name.replace(/[^\w.\-@[\]() ]/g, '_');
+}
+
+/**
+ * Express handler for POST /download/:scheme/:host/:port (urlencoded form body)
+ */
+export async function downloadMedia(req, res) {
+  const { scheme, host, port } = req.params;
+  const fields = req.body || {};
+  const targetUrl = buildDownloadUrl(cameraBaseUrl(scheme, host, port), fields);
+
+  if (!targetUrl) {
+    return sendFailure(res, {
+      status: 400,
+      code: 'INVALID_REQUEST',
+      error: 'Invalid download request: expected a /mnt/... file path or channel and time range'
+    });
+  }
+
+  const credentials = requireCameraCredentials(req, res, host, port);
+  if (!credentials) return;
+
+  console.log(`[DOWNLOAD] ${targetUrl}`);
+
+  // Abort the camera request if the browser cancels the download
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  try {
+    // Downloads can run for minutes, so they only queue until the camera answers
+    const response = await cameraFetch({ scheme, host, port }, credentials, targetUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; RetroIPCam/1.2)'
+      },
+      signal: controller.signal
+    }, { stream: true });
+
+    if (!response.ok) {
+      return sendFailure(res, refusalFailure(response, 'download', await response.text()));
+    }
+
+    const name = downloadName(fields);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}"; filename*=UTF-8''${encodeURIComponent(name)}`);
+    res.setHeader('Content-Type', 'application/octet-stream');
+    streamResponse(response, res, controller.signal);
+
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`[DOWNLOAD] Client cancelled ${targetUrl}`);
+      return;
+    }
+    const failure = await describeFetchError(error, scheme, host, port);
+    console.error(`[DOWNLOAD ERROR]`, failure.error);
+    if (!res.headersSent) {
+      sendFailure(res, failure);
+    }
+  }
+}
@@ -3,14 +3,28 @@
  *
  * Forwards requests from the browser to cameras, handling:
  * - CORS headers
- * - Digest authentication
- * - Binary data (images, video)
+ * - Digest authentication, with credentials from the server-side vault
+ * - Per-camera request queue, keep-alive and nonce reuse (metrics at /metrics)
+ * - HTTPS cameras (self-signed certificates or pinned fingerprints)
+ * - Optional admin login and a camera host/port allow-list
+ * - Binary data (images, video), streamed through as it arrives
+ * - Camera event streams (relayed as Server-Sent Events)
+ * - Recording downloads (streamed as attachments)
+ * - Firmware uploads (streamed, with upgrade progress as Server-Sent Events)
+ * - Camera account password changes (kept out of the logs)
  */
 
 import express from 'express';
 import cors from 'cors';
 import fetch from 'node-fetch';
-import DigestClient from 'digest-fetch';
+import { proxyRequest, checkReachable } from './camera-proxy.mjs';
+import { relayEvents } from './event-relay.mjs';
+import { downloadMedia } from './media-download.mjs';
+import { changeAccount } from './camera-accounts.mjs';
+import { checkFirmware, uploadFirmware } from './firmware-upgrade.mjs';
+import { openCameraSession, closeCameraSession, endSession } from './credential-vault.mjs';
+import { requireAdmin, requireMetricsAccess, guardCamera, guardCameraLogin, adminStatus, adminLogin, adminLogout, logAccessControl } from './access-control.mjs';
+import { sendMetrics } from './camera-pool.mjs';
 
 const app = express();
 const PORT = 3001;
@@ -21,73 +35,46 @@ app.use(cors());
 // Parse JSON bodies
 app.use(express.json());
 
-// Proxy endpoint: /proxy/:host/:port + any path
-// Using middleware approach to avoid Express 5 path-to-regexp wildcard issues
-app.use('/proxy', async (req, res) => {
-  // Split URL into path and query string
-  const [pathOnly, queryString] = req.url.split('?');
-  const urlParts = pathOnly.split('/').filter(p => p);
-
-  if (urlParts.length < 2) {
-    return res.status(400).json({ error: 'Invalid proxy URL format. Expected: /proxy/HOST/PORT/path' });
-  }
-
-  const host = urlParts[0];
-  const port = urlParts[1];
-  const path = '/' + urlParts.slice(2).join('/');
-  const targetUrl = `http://${host}:${port}${path}${queryString ? '?' + queryString : ''}`;
+// Admin login endpoints (login is only required once the users file has users)
+app.get('/auth', adminStatus);
+app.post('/auth/login', adminLogin);
+app.post('/auth/logout', adminLogout);
 
-  console.log(`[PROXY] ${req.method} ${targetUrl}`);
+// Camera routes need an admin session (when enabled) and an allow-listed camera
+app.use(['/events', '/download', '/firmware', '/accounts', '/reachable', '/proxy'], requireAdmin, guardCamera);
 
-  // Get auth from headers
-  const authHeader = req.headers['x-camera-auth'];
-  let username = 'admin';
-  let password = '';
+// Per-camera latency, queue depth and request counts (Prometheus text, ?format=json)
+app.get('/metrics', requireMetricsAccess, sendMetrics);
 
-  if (authHeader) {
-    const [user, pass] = Buffer.from(authHeader.split(' ')[1] || '', 'base64').toString().split(':');
-    username = user || username;
-    password = pass || password;
-  }
+// Session endpoints: camera credentials are verified once and kept server-side
+// (forgetting credentials needs no admin session, so logout works after it ends)
+app.post('/session/cameras', requireAdmin, guardCameraLogin, openCameraSession);
+app.delete('/session/cameras/:host/:port', closeCameraSession);
+app.delete('/session', endSession);
 
-  try {
-    // Use digest-fetch for authenticated requests
-    const client = new DigestClient(username, password);
+// Event stream endpoint: eventManager attach relayed as Server-Sent Events
+app.get('/events/:scheme/:host/:port', relayEvents);
 
-    const response = await client.fetch(targetUrl, {
-      method: req.method,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; RetroIPCam/1.0)'
-      }
-    });
+// Media download endpoint: recordings streamed from the camera as attachments
+app.post('/download/:scheme/:host/:port', express.urlencoded({ extended: false }), downloadMedia);
 
-    // Copy status and headers
-    res.status(response.status);
+// Account endpoint: userManager calls that carry passwords (kept out of the proxy logs)
+app.post('/accounts/:scheme/:host/:port', changeAccount);
 
-    // Set content type
-    const contentType = response.headers.get('content-type');
-    if (contentType) {
-      res.setHeader('Content-Type', contentType);
-    }
+// Reachability endpoint: TCP connect only, no request or credentials sent
+app.get('/reachable/:scheme/:host/:port', checkReachable);
 
-    // Handle binary data (images, video)
-    if (contentType && (contentType.includes('image') || contentType.includes('octet-stream'))) {
-      const buffer = await response.arrayBuffer();
-      res.send(Buffer.from(buffer));
-    } else {
-      // Handle text data
-      const text = await response.text();
-      res.send(text);
-    }
+// Firmware endpoints: header check, then streamed upload with upgrade progress
+app.post('/firmware/:scheme/:host/:port/check', express.raw({ type: () => true, limit: '128kb' }), checkFirmware);
+app.post('/firmware/:scheme/:host/:port', uploadFirmware);
 
-  } catch (error) {
-    console.error(`[PROXY ERROR]`, error.message);
-    res.status(500).json({ error: error.message });
-  }
-});
+// Proxy endpoint: /proxy/:scheme/:host/:port + any path
+// Using middleware approach to avoid Express 5 path-to-regexp wildcard issues
+app.use('/proxy', proxyRequest);
 
 app.listen(PORT, () => {
   console.log(`🔄 CORS Proxy running at http://localhost:${PORT}`);
-  console.log(`   Forward requests to: http://localhost:${PORT}/proxy/HOST/PORT/path`);
-  console.log(`   Example: http://localhost:${PORT}/proxy/192.168.1.10/80/cgi-bin/magicBox.cgi?action=getDeviceType`);
+  console.log(`   Forward requests to: http://localhost:${PORT}/proxy/SCHEME/HOST/PORT/path`);
+  console.log(`   Example: http://localhost:${PORT}/proxy/http/192.168.1.10/80/cgi-bin/magicBox.cgi?action=getDeviceType`);
+  logAccessControl();
 });
@@ -4,11 +4,26 @@
  * Single Node.js server that:
  * - Serves the Vue.js SPA frontend
  * - Proxies camera API requests to bypass CORS
- * - Handles HTTP Digest authentication
+ * - Keeps camera credentials in an encrypted server-side vault (session cookie)
+ * - Optionally requires an admin login and restricts cameras to an allow-list
+ * - Handles HTTP Digest authentication, reusing nonces and sockets per camera
+ * - Queues camera requests per camera and reports metrics
+ * - Reaches HTTPS cameras (self-signed certificates or pinned fingerprints)
+ * - Relays camera event streams as Server-Sent Events
+ * - Streams recording downloads from the camera's SD card
+ * - Uploads firmware and reports upgrade progress
+ * - Changes camera account passwords without logging them
  */
 
 import express from 'express';
-import DigestClient from 'digest-fetch';
+import { proxyRequest, checkReachable } from './camera-proxy.mjs';
+import { relayEvents } from './event-relay.mjs';
+import { downloadMedia } from './media-download.mjs';
+import { changeAccount } from './camera-accounts.mjs';
+import { checkFirmware, uploadFirmware } from './firmware-upgrade.mjs';
+import { openCameraSession, closeCameraSession, endSession } from './credential-vault.mjs';
+import { requireAdmin, requireMetricsAccess, guardCamera, guardCameraLogin, adminStatus, adminLogin, adminLogout, logAccessControl } from './access-control.mjs';
+import { sendMetrics } from './camera-pool.mjs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -25,70 +40,42 @@ app.use(express.json());
 // Serve static files from dist (Vue SPA build output)
 app.use(express.static(join(__dirname, 'dist')));
 
-// Proxy endpoint: /proxy/:host/:port + any path
-// IMPORTANT: This must come BEFORE the SPA fallback
-app.use('/proxy', async (req, res) => {
-  // Split URL into path and query string
-  const [pathOnly, queryString] = req.url.split('?');
-  const urlParts = pathOnly.split('/').filter(p => p);
+// Admin login endpoints (login is only required once the users file has users)
+app.get('/auth', adminStatus);
+app.post('/auth/login', adminLogin);
+app.post('/auth/logout', adminLogout);
 
-  if (urlParts.length < 2) {
-    return res.status(400).json({ error: 'Invalid proxy URL format. Expected: /proxy/HOST/PORT/path' });
-  }
+// Camera routes need an admin session (when enabled) and an allow-listed camera
+app.use(['/events', '/download', '/firmware', '/accounts', '/reachable', '/proxy'], requireAdmin, guardCamera);
 
-  const host = urlParts[0];
-  const port = urlParts[1];
-  const path = '/' + urlParts.slice(2).join('/');
-  const targetUrl = `http://${host}:${port}${path}${queryString ? '?' + queryString : ''}`;
+// Per-camera latency, queue depth and request counts (Prometheus text, ?format=json)
+app.get('/metrics', requireMetricsAccess, sendMetrics);
 
-  console.log(`[PROXY] ${req.method} ${targetUrl}`);
+// Session endpoints: camera credentials are verified once and kept server-side
+// (forgetting credentials needs no admin session, so logout works after it ends)
+app.post('/session/cameras', requireAdmin, guardCameraLogin, openCameraSession);
+app.delete('/session/cameras/:host/:port', closeCameraSession);
+app.delete('/session', endSession);
 
-  // Get auth from headers
-  const authHeader = req.headers['x-camera-auth'];
-  let username = 'admin';
-  let password = '';
+// Event stream endpoint: eventManager attach relayed as Server-Sent Events
+app.get('/events/:scheme/:host/:port', relayEvents);
 
-  if (authHeader) {
-    const [user, pass] = Buffer.from(authHeader.split(' ')[1] || '', 'base64').toString().split(':');
-    username = user || username;
-    password = pass || password;
-  }
+// Media download endpoint: recordings streamed from the camera as attachments
+app.post('/download/:scheme/:host/:port', express.urlencoded({ extended: false }), downloadMedia);
 
-  try {
-    // Use digest-fetch for authenticated requests
-    const client = new DigestClient(username, password);
-
-    const response = await client.fetch(targetUrl, {
-      method: req.method,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; RetroIPCam/1.2)'
-      }
-    });
-
-    // Copy status and headers
-    res.status(response.status);
-
-    // Set content type
-    const contentType = response.headers.get('content-type');
-    if (contentType) {
-      res.setHeader('Content-Type', contentType);
-    }
-
-    // Handle binary data (images, video)
-    if (contentType && (contentType.includes('image') || contentType.includes('octet-stream'))) {
-      const buffer = await response.arrayBuffer();
-      res.send(Buffer.from(buffer));
-    } else {
-      // Handle text data
-      const text = await response.text();
-      res.send(text);
-    }
-
-  } catch (error) {
-    console.error(`[PROXY ERROR]`, error.message);
-    res.status(500).json({ error: error.message });
-  }
-});
+// Account endpoint: userManager calls that carry passwords (kept out of the proxy logs)
+app.post('/accounts/:scheme/:host/:port', changeAccount);
+
+// Reachability endpoint: TCP connect only, no request or credentials sent
+app.get('/reachable/:scheme/:host/:port', checkReachable);
+
+// Firmware endpoints: header check, then streamed upload with upgrade progress
+app.post('/firmware/:scheme/:host/:port/check', express.raw({ type: () => true, limit: '128kb' }), checkFirmware);
+app.post('/firmware/:scheme/:host/:port', uploadFirmware);
+
+// Proxy endpoint: /proxy/:scheme/:host/:port + any path
+// IMPORTANT: This must come BEFORE the SPA fallback
+app.use('/proxy', proxyRequest);
 
 // SPA fallback - serve index.html for all other routes
 // This allows Vue Router to handle client-side routing
@@ -101,6 +88,13 @@ const server = app.listen(PORT, () => {
   console.log(`🚀 Retro IP Camera Admin running at http://localhost:${PORT}`);
   console.log(`   Frontend: Serving Vue.js SPA from /dist`);
   console.log(`   Proxy: Handling camera requests at /proxy/*`);
+  console.log(`   Sessions: Camera logins at /session/*`);
+  console.log(`   Events: Relaying camera event streams at /events/*`);
+  console.log(`   Downloads: Streaming recordings at /download/*`);
+  console.log(`   Accounts: Camera password changes at /accounts/*`);
+  console.log(`   Firmware: Uploading upgrades at /firmware/*`);
+  console.log(`   Metrics: Camera latency and queues at /metrics`);
+  logAccessControl();
   console.log(`   Press Ctrl+C to stop`);
 });
 
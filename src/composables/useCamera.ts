@@ -1,31 +1,138 @@
 /**
- * Camera composable - Singleton pattern
+ * Camera composable - Shared fleet state
  *
- * Manages camera connection state and provides API access
+ * Holds one connection (API client, state, system info) per camera ID so
+ * several cameras can be connected at once. useCamera() targets the active
+ * camera; useCamera(id) targets a specific camera by ID.
  * Similar to useJmri from the trains project
  */
 
-import { ref, computed } from 'vue'
+import { ref, computed, toValue, type MaybeRefOrGetter } from 'vue'
 import { CameraApiClient } from '@/utils/apiClient'
+import type { FirmwareUploadHandlers } from '@/utils/firmware'
+import type { PtzPresetAction, PtzTourAction, PtzTourPresetAction, PtzScanAction, PtzPatternAction, PtzRelativeMove } from '@/utils/ptz'
 import { logger } from '@/utils/logger'
-import { encryptSettings, decryptSettings, hasEncryptedSettings } from '@/utils/crypto'
-import type { ConnectionSettings, SystemInfo, ConnectionState } from '@/types/camera'
+import { createSettingsKey, encryptSettingsWithKey, decryptSettings, type SettingsKey } from '@/utils/crypto'
+import {
+  createCameraId,
+  loadSavedCameras,
+  getSavedCamera,
+  saveCamera,
+  removeSavedCamera,
+  hasSavedCameras,
+  clearSavedCameras
+} from '@/utils/cameraStore'
+import type {
+  ConnectionSettings,
+  SystemInfo,
+  ConnectionState,
+  SavedCamera,
+  ConfigResponse,
+  CameraEvent,
+  CameraUser,
+  MediaFile,
+  MediaSearchQuery,
+  LogSearchQuery,
+  PtzPreset,
+  PtzStatus,
+  PtzCaps,
+  FocusStatus
+} from '@/types/camera'
 
-// Singleton state
-const client = ref<CameraApiClient | null>(null)
-const connectionState = ref<ConnectionState>('disconnected' as ConnectionState)
-const systemInfo = ref<SystemInfo>({})
-const errorMessage = ref<string>('')
+/**
+ * Live connection to a single camera
+ */
+export interface CameraConnection {
+  id: string
+  name: string
+  host: string
+  client: CameraApiClient | null
+  connectionState: ConnectionState
+  systemInfo: SystemInfo
+  errorMessage: string
+  error: Error | null       // Why the connection failed (typed, see errors.ts)
+}
+
+// Shared fleet state
+const connections = ref<Record<string, CameraConnection>>({})
+const activeCameraId = ref<string | null>(null)
+const savedCameras = ref<SavedCamera[]>(loadSavedCameras())
+// Keys that re-encrypt each connected camera's saved settings (kept out of
+// reactive state: CryptoKeys must not be proxied)
+const settingsKeys = new Map<string, SettingsKey>()
+
+/**
+ * Connected cameras, in connection order
+ */
+const connectedCameras = computed(() =>
+  Object.values(connections.value).filter(camera => camera.connectionState === 'connected')
+)
+
+/**
+ * Encrypt and save a camera's connection settings to the camera list
+ *
+ * The password (given on connect and password change) is used to derive the
+ * camera's settings key but never stored; later saves reuse that key.
+ */
+async function saveConnectionSettings(id: string, name: string, settings: ConnectionSettings, password?: string) {
+  try {
+    if (password) {
+      settingsKeys.set(id, await createSettingsKey(password))
+    }
+    const key = settingsKeys.get(id)
+    if (!key) {
+      logger.warn('No settings key for camera, saved settings not updated:', id)
+      return
+    }
+    const encrypted = await encryptSettingsWithKey(settings, key)
+    saveCamera({ id, name, encryptedSettings: encrypted })
+    savedCameras.value = loadSavedCameras()
+    // Remove old plaintext settings if they exist
+    localStorage.removeItem('camera-connection-settings')
+    logger.debug('Connection settings encrypted and saved')
+  } catch (error) {
+    logger.error('Failed to encrypt settings:', error)
+    // Continue anyway - connection succeeded
+  }
+}
+
+export function useCamera(cameraId?: MaybeRefOrGetter<string | null | undefined>) {
+  /**
+   * Resolve the camera this composable targets (explicit ID or active camera)
+   */
+  const targetId = (): string | null => toValue(cameraId) ?? activeCameraId.value
+
+  const target = computed(() => {
+    const id = targetId()
+    return id ? connections.value[id] ?? null : null
+  })
+
+  const client = computed(() => target.value?.client ?? null)
 
-export function useCamera() {
   /**
    * Initialize connection with settings
+   *
+   * Connects the camera given to useCamera(id), or a new camera if no ID was given.
+   * On success the camera becomes active and its settings are saved to the camera list.
    */
-  const connect = async (settings: ConnectionSettings): Promise<boolean> => {
-    try {
-      connectionState.value = 'connecting' as ConnectionState
-      errorMessage.value = ''
+  const connect = async (settings: ConnectionSettings, name?: string): Promise<boolean> => {
+    const id = toValue(cameraId) ?? createCameraId()
+    const displayName = name?.trim() || getSavedCamera(id)?.name || settings.host
+
+    const connection: CameraConnection = {
+      id,
+      name: displayName,
+      host: settings.host,
+      client: null,
+      connectionState: 'connecting',
+      systemInfo: {},
+      errorMessage: '',
+      error: null
+    }
+    connections.value[id] = connection
+    const camera = connections.value[id]!
 
+    try {
       logger.info('Connecting to camera:', settings.host)
 
       // Set debug mode based on settings
@@ -36,52 +143,122 @@ export function useCamera() {
       }
 
       // Create new client
-      client.value = new CameraApiClient(settings)
-
-      // Test connection
-      const connected = await client.value.testConnection()
-
-      if (connected) {
-        connectionState.value = 'connected' as ConnectionState
-        logger.info('Connected to camera successfully')
-
-        // Fetch system info
-        await refreshSystemInfo()
-
-        // Encrypt and save connection settings to localStorage
-        // Password is used for encryption but never stored
-        try {
-          const encrypted = await encryptSettings(settings, settings.password)
-          localStorage.setItem('camera-connection-settings-encrypted', encrypted)
-          // Remove old plaintext settings if they exist
-          localStorage.removeItem('camera-connection-settings')
-          logger.debug('Connection settings encrypted and saved')
-        } catch (error) {
-          logger.error('Failed to encrypt settings:', error)
-          // Continue anyway - connection succeeded
-        }
-
-        return true
-      } else {
-        throw new Error('Connection test failed')
-      }
+      camera.client = new CameraApiClient(settings)
+
+      // Test connection (throws a typed error saying why it failed)
+      await camera.client.testConnection()
+
+      camera.connectionState = 'connected'
+      activeCameraId.value = id
+      logger.info('Connected to camera successfully')
+
+      // Fetch system info
+      await refreshSystemInfo(id)
+
+      // Encrypt and save connection settings to the camera list
+      await saveConnectionSettings(id, displayName, settings, settings.password)
+
+      return true
     } catch (error: any) {
-      connectionState.value = 'error' as ConnectionState
-      errorMessage.value = error?.message || 'Failed to connect to camera'
+      camera.client = null
+      camera.connectionState = 'error'
+      camera.errorMessage = error?.message || 'Failed to connect to camera'
+      camera.error = error instanceof Error ? error : null
       logger.error('Connection failed:', error)
       return false
     }
   }
 
   /**
-   * Disconnect and clear state
+   * Disconnect the target camera and clear its state
+   *
+   * If it was the active camera, another connected camera becomes active.
+   * The server forgets the camera's credentials.
    */
   const disconnect = () => {
-    client.value = null
-    connectionState.value = 'disconnected' as ConnectionState
-    systemInfo.value = {}
-    errorMessage.value = ''
-    logger.info('Disconnected from camera')
+    const id = targetId()
+    if (!id) return
+
+    connections.value[id]?.client?.closeSession()
+    delete connections.value[id]
+    settingsKeys.delete(id)
+
+    if (activeCameraId.value === id) {
+      activeCameraId.value = connectedCameras.value[0]?.id ?? null
+    }
+    logger.info('Disconnected from camera:', id)
+  }
+
+  /**
+   * Disconnect every camera and end the server session
+   */
+  const disconnectAll = () => {
+    CameraApiClient.endSession()
+    connections.value = {}
+    settingsKeys.clear()
+    activeCameraId.value = null
+    logger.info('Disconnected from all cameras')
+  }
+
+  /**
+   * Make a connected camera the active one
+   */
+  const setActiveCamera = (id: string): boolean => {
+    if (connections.value[id]?.connectionState !== 'connected') {
+      logger.warn('Cannot activate camera that is not connected:', id)
+      return false
+    }
+    activeCameraId.value = id
+    logger.info('Switched active camera:', connections.value[id]!.name)
+    return true
+  }
+
+  /**
+   * Check whether the target camera answers at another address (same credentials)
+   */
+  const probeHost = async (host: string, port?: number, timeoutMs: number = 5000): Promise<boolean> => {
+    if (!client.value) return false
+    return await client.value.withHost(host, port).probe(timeoutMs)
+  }
+
+  /**
+   * Check whether anything answers at an address (no credentials are sent)
+   */
+  const isAddressInUse = async (host: string, port?: number): Promise<boolean> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.withHost(host, port).isAddressInUse()
+  }
+
+  /**
+   * Point the target camera at a new address (e.g. after an IP change)
+   *
+   * Keeps the same credentials, tests the new address and updates the saved camera.
+   */
+  const reconnect = async (host: string, port?: number): Promise<boolean> => {
+    const id = targetId()
+    const camera = id ? connections.value[id] : null
+    if (!id || !camera?.client) return false
+
+    const newClient = camera.client.withHost(host, port)
+    try {
+      await newClient.testConnection()
+    } catch (error) {
+      logger.warn('Camera not reachable at new address:', host, error)
+      return false
+    }
+
+    // The old address no longer needs its credentials on the server
+    const oldSettings = camera.client.getSettings()
+    if (oldSettings.host !== host || (oldSettings.port || 80) !== (newClient.getSettings().port || 80)) {
+      camera.client.closeSession()
+    }
+    camera.client = newClient
+    camera.host = host
+    logger.info('Reconnected camera at:', host)
+
+    await refreshSystemInfo(id)
+    await saveConnectionSettings(id, camera.name, newClient.getSettings())
+    return true
   }
 
   /**
@@ -104,22 +281,24 @@ export function useCamera() {
   }
 
   /**
-   * Load and decrypt saved connection settings using password
+   * Load and decrypt a saved camera's connection settings using password
    *
+   * @param id - Saved camera ID
    * @param password - User's password for decryption
    * @returns Decrypted settings (without password field) or null
    */
   const loadEncryptedSettings = async (
+    id: string,
     password: string
   ): Promise<Omit<ConnectionSettings, 'password'> | null> => {
     try {
-      const encrypted = localStorage.getItem('camera-connection-settings-encrypted')
-      if (!encrypted) {
-        logger.debug('No encrypted settings found')
+      const saved = getSavedCamera(id)
+      if (!saved) {
+        logger.debug('No saved camera found:', id)
         return null
       }
 
-      const settings = await decryptSettings(encrypted, password)
+      const settings = await decryptSettings(saved.encryptedSettings, password)
       logger.debug('Settings decrypted successfully')
       return settings
     } catch (error: any) {
@@ -129,23 +308,33 @@ export function useCamera() {
   }
 
   /**
-   * Clear saved connection settings (both legacy and encrypted)
+   * Remove a camera from the saved camera list
+   */
+  const forgetCamera = (id: string) => {
+    removeSavedCamera(id)
+    savedCameras.value = loadSavedCameras()
+  }
+
+  /**
+   * Clear all saved connection settings (legacy, camera list and debug flag)
    */
   const clearSavedSettings = () => {
     localStorage.removeItem('camera-connection-settings')
-    localStorage.removeItem('camera-connection-settings-encrypted')
+    clearSavedCameras()
     localStorage.removeItem('camera-debug-enabled')
+    savedCameras.value = []
   }
 
   /**
    * Refresh system information
    */
-  const refreshSystemInfo = async () => {
-    if (!client.value) return
+  const refreshSystemInfo = async (id: string | null = targetId()) => {
+    const camera = id ? connections.value[id] : null
+    if (!camera?.client) return
 
     try {
-      const info = await client.value.getSystemInfo()
-      systemInfo.value = info
+      const info = await camera.client.getSystemInfo()
+      camera.systemInfo = info
       logger.debug('System info:', info)
     } catch (error) {
       logger.error('Failed to refresh system info:', error)
@@ -155,15 +344,24 @@ export function useCamera() {
   /**
    * Get snapshot blob
    */
-  const getSnapshot = async (channel: number = 1): Promise<Blob | null> => {
-    if (!client.value) {
-      logger.warn('Cannot get snapshot: not connected')
-      return null
-    }
-
+  const getSnapshot = async (channel: number = 1): Promise<Blob> => {
+    if (!client.value) throw new Error('Not connected')
     return await client.value.getSnapshot(channel)
   }
 
+  /**
+   * Stream MJPEG frames until the signal is aborted or the stream ends
+   */
+  const streamMjpeg = async (
+    channel: number,
+    subtype: number,
+    onFrame: (frame: Blob) => void,
+    signal: AbortSignal
+  ): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.streamMjpeg(channel, subtype, onFrame, signal)
+  }
+
   /**
    * Get configuration by name
    */
@@ -173,87 +371,458 @@ export function useCamera() {
   }
 
   /**
-   * Set configuration
+   * Set configuration (flat params, or a partial nested config diffed against an optional baseline)
+   */
+  const setConfig = async (config: ConfigResponse, baseline?: ConfigResponse) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.setConfig(config, baseline)
+  }
+
+  /**
+   * Get encode config capabilities
+   */
+  const getEncodeConfigCaps = async (channel: number = 1) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getEncodeConfigCaps(channel)
+  }
+
+  /**
+   * Subscribe to camera events until the signal is aborted or the stream ends
+   */
+  const streamEvents = async (
+    codes: string[],
+    onEvent: (event: CameraEvent) => void,
+    signal: AbortSignal,
+    onOpen?: () => void
+  ): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.streamEvents(codes, onEvent, signal, onOpen)
+  }
+
+  /**
+   * Get user accounts
+   */
+  const getUsers = async () => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getUsers()
+  }
+
+  /**
+   * Get user groups
+   */
+  const getUserGroups = async () => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getUserGroups()
+  }
+
+  /**
+   * Get logged-in sessions
+   */
+  const getActiveUsers = async () => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getActiveUsers()
+  }
+
+  /**
+   * Add a user account
+   */
+  const addUser = async (user: CameraUser, password: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.addUser(user, password)
+  }
+
+  /**
+   * Change a user's name, group, authorities or memo
+   */
+  const modifyUser = async (name: string, user: CameraUser): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.modifyUser(name, user)
+  }
+
+  /**
+   * Delete a user account
+   */
+  const deleteUser = async (name: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.deleteUser(name)
+  }
+
+  /**
+   * Change a user's password (old password required)
+   */
+  const modifyPassword = async (name: string, oldPassword: string, newPassword: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.modifyPassword(name, oldPassword, newPassword)
+  }
+
+  /**
+   * Reset another user's password as the admin account (no old password needed)
+   */
+  const resetPassword = async (name: string, newPassword: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.modifyPasswordByManager(name, newPassword)
+  }
+
+  /**
+   * Change the password of the account this connection logs in with
+   *
+   * On success the server stores the new password for this connection and
+   * the saved camera settings are re-encrypted with it.
+   */
+  const changeMyPassword = async (oldPassword: string, newPassword: string): Promise<void> => {
+    const id = targetId()
+    const camera = id ? connections.value[id] : null
+    if (!id || !camera?.client) throw new Error('Not connected')
+
+    const { username } = camera.client.getSettings()
+    await camera.client.modifyPassword(username, oldPassword, newPassword)
+
+    logger.info('Password changed for user:', username)
+
+    await saveConnectionSettings(id, camera.name, camera.client.getSettings(), newPassword)
+  }
+
+  /**
+   * Create a recording finder object
+   */
+  const createMediaFinder = async () => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.createMediaFinder()
+  }
+
+  /**
+   * Start a recording search (false if nothing matched)
+   */
+  const startMediaFind = async (object: string, query: MediaSearchQuery): Promise<boolean> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.startMediaFind(object, query)
+  }
+
+  /**
+   * Fetch the next page of recording search results
+   */
+  const findNextMediaFiles = async (object: string, count: number) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.findNextMediaFiles(object, count)
+  }
+
+  /**
+   * Close and destroy a recording finder object
+   */
+  const closeMediaFinder = async (object: string) => {
+    if (!client.value) return
+    await client.value.closeMediaFinder(object)
+  }
+
+  /**
+   * Download a recorded file through the server
    */
-  const setConfig = async (params: Record<string, string>) => {
+  const downloadMediaFile = (file: MediaFile, name: string, onError?: (message: string) => void) => {
     if (!client.value) throw new Error('Not connected')
-    return await client.value.setConfig(params)
+    client.value.downloadMediaFile(file, name, onError)
+  }
+
+  /**
+   * Download a time range of recordings through the server
+   */
+  const downloadTimeRange = (
+    channel: number,
+    startTime: string,
+    endTime: string,
+    subtype: number,
+    name: string,
+    onError?: (message: string) => void
+  ) => {
+    if (!client.value) throw new Error('Not connected')
+    client.value.downloadTimeRange(channel, startTime, endTime, subtype, name, onError)
+  }
+
+  /**
+   * Start a camera log search
+   */
+  const startLogFind = async (query: LogSearchQuery) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.startLogFind(query)
+  }
+
+  /**
+   * Fetch camera log entries
+   */
+  const seekLogEntries = async (token: string, offset: number, count: number) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.seekLogEntries(token, offset, count)
+  }
+
+  /**
+   * Release a camera log search
+   */
+  const stopLogFind = async (token: string) => {
+    if (!client.value) return
+    await client.value.stopLogFind(token)
+  }
+
+  /**
+   * Get storage devices
+   */
+  const getStorageDevices = async () => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getStorageDevices()
+  }
+
+  /**
+   * Format a storage device
+   */
+  const formatStorageDevice = async (name: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.formatStorageDevice(name)
+  }
+
+  /**
+   * Check a firmware file against the camera before uploading
+   */
+  const checkFirmware = async (file: File) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.checkFirmware(file)
+  }
+
+  /**
+   * Upload firmware and follow the upgrade
+   */
+  const uploadFirmware = async (file: File, handlers?: FirmwareUploadHandlers, confirmed?: boolean) => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.uploadFirmware(file, handlers, confirmed)
+  }
+
+  /**
+   * Get the all-covers privacy masking switch (null if unsupported)
+   */
+  const getPrivacyMaskingEnable = async (channel: number = 1): Promise<boolean | null> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getPrivacyMaskingEnable(channel)
+  }
+
+  /**
+   * Enable or disable all privacy masking covers
+   */
+  const setPrivacyMaskingEnable = async (channel: number, enable: boolean): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.setPrivacyMaskingEnable(channel, enable)
   }
 
   /**
    * Reboot camera
    */
-  const reboot = async (): Promise<boolean> => {
-    if (!client.value) return false
-    return await client.value.reboot()
+  const reboot = async (): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.reboot()
+  }
+
+  /**
+   * Get the camera clock
+   */
+  const getCurrentTime = async () => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getCurrentTime()
+  }
+
+  /**
+   * Set the camera clock
+   */
+  const setCurrentTime = async (time: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.setCurrentTime(time)
+  }
+
+  /**
+   * Reset camera to factory defaults
+   */
+  const factoryReset = async (keepNetworkAndUsers: boolean): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.factoryReset(keepNetworkAndUsers)
   }
 
   /**
    * Start PTZ movement
    */
-  const ptzStart = async (code: string, speed: number = 4): Promise<boolean> => {
-    if (!client.value) {
-      logger.warn('Cannot start PTZ: not connected')
-      return false
-    }
-    return await client.value.ptzControl('start', code, 1, 0, speed, 0)
+  const ptzStart = async (code: string, speed: number = 4): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzControl('start', code, 1, 0, speed, 0)
   }
 
   /**
    * Stop PTZ movement
    */
-  const ptzStop = async (code: string): Promise<boolean> => {
-    if (!client.value) {
-      logger.warn('Cannot stop PTZ: not connected')
-      return false
-    }
-    return await client.value.ptzControl('stop', code, 1, 0, 0, 0)
+  const ptzStop = async (code: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzControl('stop', code, 1, 0, 0, 0)
   }
 
   /**
-   * Go to PTZ preset position
+   * Get PTZ presets (channel 1)
    */
-  const ptzGotoPreset = async (presetNumber: number): Promise<boolean> => {
-    if (!client.value) {
-      logger.warn('Cannot go to preset: not connected')
-      return false
-    }
-    return await client.value.ptzControl('start', 'GotoPreset', 1, 0, presetNumber, 0)
+  const getPtzPresets = async (): Promise<PtzPreset[]> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getPtzPresets(1)
   }
 
   /**
-   * Save current position as PTZ preset
+   * Get PTZ position and movement state
    */
-  const ptzSetPreset = async (presetNumber: number): Promise<boolean> => {
-    if (!client.value) {
-      logger.warn('Cannot set preset: not connected')
-      return false
-    }
-    return await client.value.ptzControl('start', 'SetPreset', 1, 0, presetNumber, 0)
+  const getPtzStatus = async (): Promise<PtzStatus> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getPtzStatus(1)
   }
 
   /**
-   * Clear PTZ preset
+   * Get PTZ numbering limits
    */
-  const ptzClearPreset = async (presetNumber: number): Promise<boolean> => {
-    if (!client.value) {
-      logger.warn('Cannot clear preset: not connected')
-      return false
-    }
-    return await client.value.ptzControl('start', 'ClearPreset', 1, 0, presetNumber, 0)
+  const getPtzCaps = async (): Promise<PtzCaps> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getPtzCaps(1)
+  }
+
+  /**
+   * Go to, save or clear a PTZ preset
+   */
+  const ptzPreset = async (action: PtzPresetAction, preset: number): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzPreset(action, 1, preset)
+  }
+
+  /**
+   * Rename a PTZ preset
+   */
+  const renamePtzPreset = async (preset: number, name: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.renamePtzPreset(1, preset, name)
+  }
+
+  /**
+   * Start, stop or delete a PTZ tour
+   */
+  const ptzTour = async (action: PtzTourAction, tour: number): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzTour(action, 1, tour)
+  }
+
+  /**
+   * Create or rename a PTZ tour
+   */
+  const setPtzTour = async (tour: number, name: string): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.setPtzTour(1, tour, name)
+  }
+
+  /**
+   * Add a preset to, or remove it from, a PTZ tour
+   */
+  const ptzTourPreset = async (action: PtzTourPresetAction, tour: number, preset: number): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzTourPreset(action, 1, tour, preset)
+  }
+
+  /**
+   * Set scan limits or start/stop a PTZ scan
+   */
+  const ptzScan = async (action: PtzScanAction, scan: number): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzScan(action, 1, scan)
+  }
+
+  /**
+   * Record or replay a PTZ pattern
+   */
+  const ptzPattern = async (action: PtzPatternAction, pattern: number): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzPattern(action, 1, pattern)
+  }
+
+  /**
+   * Start or stop continuous panning
+   */
+  const ptzAutoPan = async (enable: boolean): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzAutoPan(1, enable)
+  }
+
+  /**
+   * Center on a point of the picture and optionally zoom (3D positioning)
+   */
+  const ptzMoveRelative = async (move: PtzRelativeMove): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzMoveRelative(1, move)
+  }
+
+  /**
+   * Move to an absolute pan/tilt/zoom position
+   */
+  const ptzMoveAbsolute = async (position: number[]): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.ptzMoveAbsolute(1, position)
+  }
+
+  /**
+   * Get video input capabilities
+   */
+  const getVideoInputCaps = async (): Promise<Record<string, any>> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getVideoInputCaps(1)
+  }
+
+  /**
+   * Get zoom/focus motor positions
+   */
+  const getFocusStatus = async (): Promise<FocusStatus> => {
+    if (!client.value) throw new Error('Not connected')
+    return await client.value.getFocusStatus(1)
+  }
+
+  /**
+   * Move the zoom and/or focus motor to a position (0-1)
+   */
+  const adjustFocus = async (position: { focus?: number, zoom?: number }): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.adjustFocus(1, position)
+  }
+
+  /**
+   * Drive the zoom and/or focus motor at a rate (0 stops)
+   */
+  const adjustFocusContinuously = async (rate: { focus?: number, zoom?: number }): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.adjustFocusContinuously(1, rate)
+  }
+
+  /**
+   * Run a one-shot autofocus
+   */
+  const autoFocus = async (): Promise<void> => {
+    if (!client.value) throw new Error('Not connected')
+    await client.value.autoFocus(1)
   }
 
   // Computed properties
+  const connectionState = computed<ConnectionState>(() => target.value?.connectionState ?? 'disconnected')
   const isConnected = computed(() => connectionState.value === 'connected')
   const isConnecting = computed(() => connectionState.value === 'connecting')
   const hasError = computed(() => connectionState.value === 'error')
 
   return {
     // State
-    client: computed(() => client.value),
-    connectionState: computed(() => connectionState.value),
-    systemInfo: computed(() => systemInfo.value),
-    errorMessage: computed(() => errorMessage.value),
+    client,
+    connectionState,
+    systemInfo: computed(() => target.value?.systemInfo ?? {}),
+    errorMessage: computed(() => target.value?.errorMessage ?? ''),
+    connectionError: computed(() => target.value?.error ?? null),
+    cameraName: computed(() => target.value?.name ?? ''),
+    cameraHost: computed(() => target.value?.host ?? ''),
+    cameraUsername: computed(() => target.value?.client?.getSettings().username ?? ''),
+
+    // Fleet state
+    activeCameraId: computed(() => activeCameraId.value),
+    cameras: computed(() => Object.values(connections.value)),
+    connectedCameras,
+    savedCameras: computed(() => savedCameras.value),
 
     // Computed
     isConnected,
@@ -263,19 +832,70 @@ export function useCamera() {
     // Methods
     connect,
     disconnect,
+    disconnectAll,
+    setActiveCamera,
+    probeHost,
+    isAddressInUse,
+    reconnect,
     loadSavedSettings,
     loadEncryptedSettings,
-    hasEncryptedSettings,
+    hasSavedCameras,
+    forgetCamera,
     clearSavedSettings,
     refreshSystemInfo,
     getSnapshot,
+    streamMjpeg,
     getConfig,
     setConfig,
+    getEncodeConfigCaps,
+    streamEvents,
+    getUsers,
+    getUserGroups,
+    getActiveUsers,
+    addUser,
+    modifyUser,
+    deleteUser,
+    modifyPassword,
+    resetPassword,
+    changeMyPassword,
+    createMediaFinder,
+    startMediaFind,
+    findNextMediaFiles,
+    closeMediaFinder,
+    downloadMediaFile,
+    downloadTimeRange,
+    startLogFind,
+    seekLogEntries,
+    stopLogFind,
+    getStorageDevices,
+    formatStorageDevice,
+    checkFirmware,
+    uploadFirmware,
+    getPrivacyMaskingEnable,
+    setPrivacyMaskingEnable,
     reboot,
+    getCurrentTime,
+    setCurrentTime,
+    factoryReset,
     ptzStart,
     ptzStop,
-    ptzGotoPreset,
-    ptzSetPreset,
-    ptzClearPreset
+    getPtzPresets,
+    getPtzStatus,
+    getPtzCaps,
+    ptzPreset,
+    renamePtzPreset,
+    ptzTour,
+    setPtzTour,
+    ptzTourPreset,
+    ptzScan,
+    ptzPattern,
+    ptzAutoPan,
+    ptzMoveRelative,
+    ptzMoveAbsolute,
+    getVideoInputCaps,
+    getFocusStatus,
+    adjustFocus,
+    adjustFocusContinuously,
+    autoFocus
   }
 }
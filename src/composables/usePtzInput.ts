@@ -0,0 +1,186 @@
+import { ref, watch, onMounted, onUnmounted, type Ref } from 'vue'
+
+/**
+ * Keyboard and gamepad PTZ control
+ *
+ * Held keys/buttons are combined into one movement code (diagonals for two
+ * directions, pan/tilt before zoom). Whenever it changes the old movement is
+ * stopped before the new one starts; releasing everything, losing window focus
+ * or hiding the tab stops it.
+ */
+
+type Direction = 'up' | 'down' | 'left' | 'right'
+type Zoom = 'in' | 'out'
+
+const KEY_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  KeyW: 'up',
+  KeyS: 'down',
+  KeyA: 'left',
+  KeyD: 'right'
+}
+
+const KEY_ZOOMS: Record<string, Zoom> = {
+  '+': 'in',
+  '=': 'in',
+  '-': 'out',
+  '_': 'out'
+}
+
+// Standard gamepad mapping: d-pad buttons and shoulder buttons
+const GAMEPAD_DIRECTIONS: Record<number, Direction> = { 12: 'up', 13: 'down', 14: 'left', 15: 'right' }
+const GAMEPAD_ZOOMS: Record<number, Zoom> = { 5: 'in', 4: 'out' }
+const STICK_DEADZONE = 0.5
+
+/**
+ * ptz.cgi code for a set of held inputs
+ */
+function movementCode(directions: Set<Direction>, zooms: Set<Zoom>): string | null {
+  const vertical = directions.has('up') === directions.has('down') ? '' : directions.has('up') ? 'Up' : 'Down'
+  const horizontal = directions.has('left') === directions.has('right') ? '' : directions.has('left') ? 'Left' : 'Right'
+  if (vertical || horizontal) return `${horizontal}${vertical}`
+
+  if (zooms.has('in') !== zooms.has('out')) return zooms.has('in') ? 'ZoomTele' : 'ZoomWide'
+  return null
+}
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName))
+
+export function usePtzInput(options: {
+  start: (code: string) => Promise<unknown>
+  stop: (code: string) => Promise<unknown>
+  enabled: Ref<boolean>
+}) {
+  const keyDirections = new Set<Direction>()
+  const keyZooms = new Set<Zoom>()
+  let padDirections = new Set<Direction>()
+  let padZooms = new Set<Zoom>()
+
+  // Movement started by this composable, null when stopped
+  const activeCode = ref<string | null>(null)
+  const gamepadConnected = ref(false)
+
+  let pollFrame: number | null = null
+  // Commands are sent one after another so a stop never overtakes its start
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const update = () => {
+    const directions = new Set([...keyDirections, ...padDirections])
+    const zooms = new Set([...keyZooms, ...padZooms])
+    const next = options.enabled.value ? movementCode(directions, zooms) : null
+    const previous = activeCode.value
+    if (next === previous) return
+
+    activeCode.value = next
+    queue = queue.then(async () => {
+      if (previous) await options.stop(previous)
+      if (next) await options.start(next)
+    }).catch(() => undefined)
+  }
+
+  const releaseAll = () => {
+    keyDirections.clear()
+    keyZooms.clear()
+    padDirections = new Set()
+    padZooms = new Set()
+    update()
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.repeat || event.ctrlKey || event.metaKey || event.altKey || isTextInput(event.target)) return
+    const direction = KEY_DIRECTIONS[event.code]
+    const zoom = KEY_ZOOMS[event.key]
+    if (!direction && !zoom) return
+
+    // Keep arrow keys from scrolling the page
+    event.preventDefault()
+    if (direction) keyDirections.add(direction)
+    if (zoom) keyZooms.add(zoom)
+    update()
+  }
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    const direction = KEY_DIRECTIONS[event.code]
+    const zoom = KEY_ZOOMS[event.key]
+    if (direction) keyDirections.delete(direction)
+    // Shift changes the key for +/_, so release both zoom keys
+    if (zoom) keyZooms.clear()
+    if (direction || zoom) update()
+  }
+
+  const handleVisibilityChange = () => {
+    if (document.hidden) releaseAll()
+  }
+
+  /**
+   * Read the first connected gamepad every frame
+   */
+  const pollGamepad = () => {
+    const pad = navigator.getGamepads?.().find(gamepad => gamepad?.connected)
+    if (!pad) {
+      gamepadConnected.value = false
+      pollFrame = null
+      padDirections = new Set()
+      padZooms = new Set()
+      update()
+      return
+    }
+
+    const directions = new Set<Direction>()
+    const zooms = new Set<Zoom>()
+    const [stickX = 0, stickY = 0] = pad.axes
+    if (stickY < -STICK_DEADZONE) directions.add('up')
+    if (stickY > STICK_DEADZONE) directions.add('down')
+    if (stickX < -STICK_DEADZONE) directions.add('left')
+    if (stickX > STICK_DEADZONE) directions.add('right')
+    for (const [index, direction] of Object.entries(GAMEPAD_DIRECTIONS)) {
+      if (pad.buttons[Number(index)]?.pressed) directions.add(direction)
+    }
+    for (const [index, zoom] of Object.entries(GAMEPAD_ZOOMS)) {
+      if (pad.buttons[Number(index)]?.pressed) zooms.add(zoom)
+    }
+
+    padDirections = directions
+    padZooms = zooms
+    update()
+    pollFrame = requestAnimationFrame(pollGamepad)
+  }
+
+  const handleGamepadConnected = () => {
+    gamepadConnected.value = true
+    if (pollFrame === null) pollFrame = requestAnimationFrame(pollGamepad)
+  }
+
+  // Stop when control is disabled, resume held inputs when it comes back
+  watch(options.enabled, update)
+
+  onMounted(() => {
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', releaseAll)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('gamepadconnected', handleGamepadConnected)
+    // A pad that was already connected only reports itself after a button press
+    if (navigator.getGamepads?.().some(gamepad => gamepad?.connected)) handleGamepadConnected()
+  })
+
+  onUnmounted(() => {
+    window.removeEventListener('keydown', handleKeyDown)
+    window.removeEventListener('keyup', handleKeyUp)
+    window.removeEventListener('blur', releaseAll)
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    window.removeEventListener('gamepadconnected', handleGamepadConnected)
+    if (pollFrame !== null) cancelAnimationFrame(pollFrame)
+    releaseAll()
+  })
+
+  return {
+    activeCode,
+    gamepadConnected
+  }
+}
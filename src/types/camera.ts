@@ -7,40 +7,258 @@ export interface ConnectionSettings {
   host: string           // e.g., '192.168.1.10'
   port: number           // Default: 80
   secure: boolean        // false = http, true = https
+  allowSelfSigned?: boolean  // HTTPS: accept certificates not signed by a trusted CA
+  certFingerprint?: string   // HTTPS: pinned SHA-256 certificate fingerprint
   username: string       // e.g., 'admin'
   password: string       // Never stored (used for encryption only)
   debugEnabled: boolean  // Enable debug logging
   // proxyMode: always true - cameras require CORS proxy
 }
 
+// Saved camera entry in the camera list (one per managed camera)
+export interface SavedCamera {
+  id: string                 // Stable local identifier
+  name: string               // Display name shown in the camera switcher
+  encryptedSettings: string  // Payload from encryptSettings()/encryptSettingsWithKey(), unlocked with the camera password
+}
+
 // System information from camera
 export interface SystemInfo {
+  machineName?: string
   deviceType?: string
+  deviceClass?: string     // e.g. 'IPC', 'HDVR'
+  vendor?: string
   serialNumber?: string
+  processor?: string
   hardwareVersion?: string
   softwareVersion?: string
-  buildDate?: string
-  deviceClass?: string
+  buildDate?: string       // From getSoftwareVersion's ',build:' suffix
+  httpApiVersion?: string
+  onvifVersion?: string
 }
 
 // Video encode configuration
 export interface EncodeConfig {
   videoCodec?: string
-  resolution?: string
+  resolution?: string    // e.g., '1920x1080'
   frameRate?: number
   bitRate?: number
   bitrateControl?: string
 }
 
-// Network configuration
+// Encode stream: main (MainFormat[0]) or extra/sub stream (ExtraFormat[0])
+export type EncodeStream = 'main' | 'extra'
+
+// Supported encode values reported by encode.cgi?action=getConfigCaps
+export interface EncodeCaps {
+  compressionTypes: string[]  // e.g., ['H.264', 'H.265']
+  resolutions: string[]       // Normalized 'WIDTHxHEIGHT' values
+  bitRateMin?: number         // kbps
+  bitRateMax?: number         // kbps
+  fpsMax?: number
+}
+
+// Network configuration (one interface of the Network config, see utils/network.ts)
 export interface NetworkConfig {
+  interfaceName?: string  // e.g., 'eth0'
+  hostname?: string
   address?: string
   subnet?: string
   gateway?: string
   dhcp?: boolean
+  dnsServers?: string[]   // Primary, secondary
+  mtu?: number
   macAddress?: string
 }
 
+// Camera user account from userManager.cgi?action=getUserInfoAll (see utils/users.ts)
+export interface CameraUser {
+  id?: number
+  name: string
+  group: string          // e.g. 'admin', 'user'
+  authorities: string[]  // e.g. ['AuthSysCfg', 'Monitor_01']
+  memo?: string
+  reserved?: boolean     // Built-in account that cannot be deleted
+  sharable?: boolean     // Allows several simultaneous logins
+}
+
+// User group from userManager.cgi?action=getGroupInfoAll
+export interface CameraUserGroup {
+  id?: number
+  name: string
+  authorities: string[]  // Upper bound for the authorities of the group's users
+  memo?: string
+}
+
+// Logged-in session from userManager.cgi?action=getActiveUserInfoAll
+export interface ActiveUserSession {
+  id?: number
+  name: string
+  group?: string
+  clientAddress?: string
+  clientType?: string    // e.g. 'Web3.0', 'Dahua3.0-Web3.0'
+  loginTime?: string     // 'yyyy-MM-dd hh:mm:ss' in camera local time
+}
+
+// One schedule segment: EventHandler.TimeSection[weekday][segment] = "mask hh:mm:ss-hh:mm:ss"
+export interface TimeSection {
+  mask: number   // 0 = unused; bit flags depend on the config (e.g. Record: 1 continuous, 2 motion, 4 alarm)
+  start: string  // 'hh:mm:ss'
+  end: string    // 'hh:mm:ss'
+}
+
+// Event relayed from eventManager.cgi?action=attach (see utils/events.ts)
+export interface CameraEvent {
+  code: string         // Event code, e.g. 'VideoMotion'
+  action: string       // 'Start', 'Stop' or 'Pulse'
+  index: number        // Channel/input index (0-based)
+  data?: any           // Optional JSON event body
+  receivedAt: number   // Browser timestamp (ms)
+}
+
+// Recording search (mediaFileFind.cgi findFile condition, see utils/recordings.ts)
+export interface MediaSearchQuery {
+  channel: number        // 1-based
+  startTime: string      // 'yyyy-MM-dd hh:mm:ss' in camera local time
+  endTime: string
+  fileType: 'dav' | 'jpg'
+  recordType: string     // Key of RECORD_TYPES, e.g. 'all', 'motion', 'continuous'
+}
+
+// One file from mediaFileFind.cgi?action=findNextFile
+export interface MediaFile {
+  channel: number        // 1-based (items[n].Channel + 1)
+  startTime: string      // Camera local time
+  endTime: string
+  type: string           // 'dav' or 'jpg'
+  filePath: string       // e.g. '/mnt/sd/2024-01-01/001/dav/12/12.00.00-12.05.00[M][0@0][0].dav'
+  length: number         // Bytes
+  duration?: number      // Seconds
+  events: string[]       // e.g. ['VideoMotion']
+  flags: string[]        // e.g. ['Event'], ['Timing']
+  videoStream?: string   // 'Main' or 'Extra1'
+}
+
+// PTZ preset (ptz.cgi?action=getPresets)
+export interface PtzPreset {
+  index: number          // Starts from 1
+  name: string
+  position?: number[]    // [pan 0-3599, tilt -1800-1800 (tenths of a degree), zoom 0-128]
+}
+
+// PTZ position and activity (ptz.cgi?action=getStatus)
+export interface PtzStatus {
+  moveStatus: string     // e.g. 'Idle', 'Moving'
+  zoomStatus: string
+  presetId?: number      // Last preset reached
+  position?: number[]    // [pan, tilt, zoom]
+}
+
+// Numbering limits from ptz.cgi?action=getCurrentProtocolCaps (see utils/ptz.ts)
+export interface PtzCaps {
+  presetMin: number
+  presetMax: number
+  tourMin: number
+  tourMax: number
+  patternMin: number
+  patternMax: number
+}
+
+// PTZ tour with its presets and dwell times (PtzTour config)
+export interface PtzTour {
+  index: number          // Starts from 1
+  name: string
+  presets: { preset: number, dwell: number }[]  // dwell in seconds
+}
+
+// Motorized lens position (devVideoInput.cgi?action=getFocusStatus)
+export interface FocusStatus {
+  focus: number          // Focus motor position, 0-1
+  zoom: number           // Zoom motor position, 0-1
+  status: string         // "Normal" or "Autofocus"
+}
+
+// Title or picture overlay (VideoWidget[n].ChannelTitle/TimeTitle/PictureTitle/CustomTitle[i], see utils/widgets.ts)
+export interface OverlayWidget {
+  encodeBlend: boolean    // Shown on the video
+  rect: [number, number, number, number]  // left, top, right, bottom (0-8191)
+  frontColor?: number[]   // Text color, RGB or RGBA (0-255)
+  backColor?: number[]    // Background color, RGBA (alpha 255 = opaque)
+  text?: string           // Custom titles only ('|' starts a new line)
+}
+
+// Privacy mask (VideoWidget[n].Covers[i], see utils/widgets.ts)
+export interface PrivacyCover {
+  enabled: boolean
+  encodeBlend: boolean    // Masked in the encoded (recorded/streamed) video
+  previewBlend?: boolean  // Masked in the local preview (missing on some firmware)
+  rect: [number, number, number, number]  // left, top, right, bottom (0-8191)
+}
+
+// Log search (log.cgi startFind condition, see utils/logs.ts)
+export interface LogSearchQuery {
+  startTime: string      // 'yyyy-MM-dd hh:mm:ss' in camera local time
+  endTime: string
+  type: string           // '' for all, or a LOG_TYPES value such as 'Account'
+}
+
+// One entry from log.cgi?action=doSeekFind
+export interface CameraLogEntry {
+  recNo: number
+  time: string           // Camera local time
+  timeUtc?: string       // 'yyyy-MM-ddThh:mm:ssZ' when reported
+  type: string           // e.g. 'Login', 'SaveConfig', 'Reboot'
+  user: string
+  detail: Record<string, string>  // Flattened items[n].Detail.* (e.g. { Data: 'Encode' })
+}
+
+// Partition of a storage device (storageDevice.cgi?action=getDeviceAllInfo)
+export interface StoragePartition {
+  path: string         // e.g. '/mnt/sd'
+  type: string         // 'ReadWrite' or 'ReadOnly'
+  totalBytes: number
+  usedBytes: number
+  isError: boolean
+}
+
+// Storage device (SD card, NAS, ...) with its partitions
+export interface StorageDevice {
+  name: string         // e.g. '/dev/mmc0' (the path setDevice formats)
+  state: string        // 'Success', 'Initializing' or 'Error'
+  partitions: StoragePartition[]
+}
+
+// Result of the server's firmware header check (see firmware-upgrade.mjs)
+export interface FirmwareCheck {
+  deviceType: string     // Device type the camera reports
+  error?: string         // File must not be uploaded (not firmware, or for another model)
+  warning?: string       // Upload only after the user confirms (camera reported no device type)
+}
+
+// Firmware upgrade state relayed from upgrader.cgi?action=getState (see firmware-upgrade.mjs)
+export interface FirmwareUpgradeState {
+  state: string          // e.g. 'Upgrading', 'Succeeded', 'Failed', or 'Rebooting' while unreachable
+  progress?: number      // 0-100
+  rebooted?: boolean     // Camera answered again after dropping off (new firmware running)
+  timedOut?: boolean     // Server stopped polling before a final state
+}
+
+// Configuration backup document (see utils/backup.ts)
+export interface ConfigBackup {
+  format: string                  // Always BACKUP_FORMAT
+  version: number                 // Document version, bumped on breaking changes
+  createdAt: string               // ISO timestamp
+  camera: SystemInfo & { name?: string }
+  configs: Record<string, any>    // Config name -> parsed table value
+}
+
+// One changed leaf between the camera's config and a backup
+export interface ConfigDiffEntry {
+  key: string        // Flat setConfig key, e.g. 'Encode[0].MainFormat[0].Video.FPS'
+  current?: string   // Value on the camera (undefined if missing)
+  backup: string     // Value in the backup
+}
+
 // Generic config response (key=value format)
 export interface ConfigResponse {
   [key: string]: any
@@ -0,0 +1,56 @@
+/**
+ * Admin login for the web app (server-side, see access-control.mjs)
+ *
+ * Only enforced when the server has a users file. The session is an
+ * HttpOnly cookie, so the browser never sees a token.
+ */
+
+import { logger } from './logger'
+
+export interface AdminStatus {
+  loginRequired: boolean
+  username: string | null
+}
+
+/**
+ * Whether the server needs an admin login, and who is logged in
+ *
+ * Servers without the /auth endpoint are treated as not needing one.
+ */
+export async function getAdminStatus(): Promise<AdminStatus> {
+  try {
+    const response = await fetch('/auth')
+    if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    const status = await response.json()
+    return { loginRequired: !!status.loginRequired, username: status.username ?? null }
+  } catch (error) {
+    logger.warn('Failed to read admin login status:', error)
+    return { loginRequired: false, username: null }
+  }
+}
+
+/**
+ * Log in as an admin user (throws the server's error message)
+ */
+export async function adminLogin(username: string, password: string): Promise<void> {
+  const response = await fetch('/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+}
+
+/**
+ * End the admin session
+ */
+export async function adminLogout(): Promise<void> {
+  try {
+    await fetch('/auth/logout', { method: 'POST' })
+  } catch (error) {
+    logger.warn('Failed to log out admin:', error)
+  }
+}
@@ -1,74 +1,250 @@
 /**
  * Camera API Client using CORS Proxy
  *
- * All requests go through the proxy server for CORS and auth handling
+ * All requests go through the proxy server for CORS and auth handling.
+ * Failures are thrown as the typed errors of errors.ts.
  */
 
 import { logger } from './logger'
-import { parseKeyValueResponse, extractSimpleValues } from './parser'
-import type { ConnectionSettings, SystemInfo, ConfigResponse } from '@/types/camera'
+import { CameraRejectedError, ParseError, errorFromResponse, errorFromFetch } from './errors'
+import { parseKeyValueResponse, extractSimpleValues, flattenToKeyValue } from './parser'
+import { readEventStream } from './events'
+import { readMjpegStream } from './mjpeg'
+import { parseUsers, parseGroups, parseSessions, buildUserFields } from './users'
+import { buildFindCondition, parseMediaFiles, submitDownload } from './recordings'
+import { parseStorageDevices } from './storage'
+import { FIRMWARE_HEADER_BYTES, sendFirmware, type FirmwareUploadHandlers } from './firmware'
+import { parseSoftwareVersion } from './system'
+import { buildLogCondition, parseLogEntries } from './logs'
+import {
+  PTZ_PRESET_CODES,
+  PTZ_TOUR_CODES,
+  PTZ_TOUR_PRESET_CODES,
+  PTZ_SCAN_CODES,
+  PTZ_PATTERN_CODES,
+  PTZ_POSITION_CODE,
+  PTZ_POSITION_ABS_CODE,
+  parsePtzPresets,
+  parsePtzStatus,
+  parsePtzCaps,
+  type PtzPresetAction,
+  type PtzTourAction,
+  type PtzTourPresetAction,
+  type PtzScanAction,
+  type PtzPatternAction,
+  type PtzRelativeMove
+} from './ptz'
+import { parseFocusStatus } from './lens'
+import type {
+  ConnectionSettings,
+  SystemInfo,
+  ConfigResponse,
+  CameraEvent,
+  CameraUser,
+  CameraUserGroup,
+  ActiveUserSession,
+  MediaFile,
+  MediaSearchQuery,
+  StorageDevice,
+  FirmwareCheck,
+  FirmwareUpgradeState,
+  CameraLogEntry,
+  LogSearchQuery,
+  PtzPreset,
+  PtzStatus,
+  PtzCaps,
+  FocusStatus
+} from '@/types/camera'
 
 export class CameraApiClient {
+  private settings: ConnectionSettings
   private baseUrl: string
+  private eventsUrl: string
+  private downloadUrl: string
+  private firmwareUrl: string
+  private accountsUrl: string
+  private reachableUrl: string
+  // Camera whose stored credentials openSession reuses (set by withHost)
+  private credentialsFrom: { host: string, port: number } | null = null
   private connected: boolean = false
-  private authHeader: string
 
   constructor(settings: ConnectionSettings) {
+    this.settings = { ...settings }
     const port = settings.port || 80
+    const camera = `${settings.secure ? 'https' : 'http'}/${settings.host}/${port}`
 
     // Always use proxy server - cameras require CORS proxy
-    // Use relative URL since proxy is on same origin
-    this.baseUrl = `/proxy/${settings.host}/${port}`
+    // Use relative URL since proxy is on same origin; the scheme leads the camera path
+    this.baseUrl = `/proxy/${camera}`
+    this.eventsUrl = `/events/${camera}`
+    this.downloadUrl = `/download/${camera}`
+    this.firmwareUrl = `/firmware/${camera}`
+    this.accountsUrl = `/accounts/${camera}`
+    this.reachableUrl = `/reachable/${camera}`
     logger.info('Using CORS proxy:', this.baseUrl)
+  }
+
+  /**
+   * Log in through the server, which checks the credentials against the camera
+   * and keeps them; later requests carry only the session cookie
+   *
+   * The password is forgotten once the server has accepted it. A client made
+   * by withHost sends no password: the server reuses the credentials it
+   * stored for the original address.
+   *
+   * @throws AuthError, UnreachableError, TimeoutError or ParseError (see errors.ts)
+   *         with the server's reason if the login is refused
+   */
+  async openSession(signal?: AbortSignal): Promise<void> {
+    const response = await fetch('/session/cameras', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        host: this.settings.host,
+        port: this.settings.port || 80,
+        secure: this.settings.secure,
+        ...(this.credentialsFrom
+          ? { sameAs: this.credentialsFrom }
+          : { username: this.settings.username, password: this.settings.password }),
+        allowSelfSigned: !!this.settings.allowSelfSigned,
+        fingerprint: this.settings.certFingerprint || ''
+      }),
+      signal
+    }).catch(error => {
+      throw errorFromFetch(error)
+    })
 
-    // Prepare auth header for proxy mode
-    const credentials = btoa(`${settings.username}:${settings.password}`)
-    this.authHeader = `Basic ${credentials}`
+    if (!response.ok) {
+      throw await errorFromResponse(response)
+    }
+    this.settings.password = ''
+    this.credentialsFrom = null
   }
 
   /**
-   * Test connection by fetching device type
+   * Drop this camera's credentials from the server session
    */
-  async testConnection(): Promise<boolean> {
+  async closeSession(): Promise<void> {
     try {
-      const deviceType = await this.getDeviceType()
-      this.connected = !!deviceType
-      return this.connected
+      await fetch(`/session/cameras/${encodeURIComponent(this.settings.host)}/${this.settings.port || 80}`, { method: 'DELETE' })
     } catch (error) {
-      logger.error('Connection test failed:', error)
+      logger.warn('Failed to close camera session:', error)
+    }
+  }
+
+  /**
+   * End the server session, dropping the credentials of every camera
+   */
+  static async endSession(): Promise<void> {
+    try {
+      await fetch('/session', { method: 'DELETE' })
+    } catch (error) {
+      logger.warn('Failed to end server session:', error)
+    }
+  }
+
+  /**
+   * Test connection: log in, then fetch the device type through the proxy
+   *
+   * @throws The typed error (errors.ts) of whichever step failed
+   */
+  async testConnection(): Promise<void> {
+    try {
       this.connected = false
+      await this.openSession()
+      await this.getDeviceType()
+      this.connected = true
+    } catch (error) {
+      logger.error('Connection test failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Check whether the camera answers within a timeout (no error logging)
+   *
+   * Used to poll an address that may not be reachable (e.g. after an IP change).
+   * The server verifies the login with a device type request, so a successful
+   * login means the camera answered.
+   */
+  async probe(timeoutMs: number = 5000): Promise<boolean> {
+    try {
+      await this.openSession(AbortSignal.timeout(timeoutMs))
+      return true
+    } catch {
       return false
     }
   }
 
+  /**
+   * Check whether anything accepts connections at this client's address
+   *
+   * Unlike probe, no login is attempted: the server only opens a TCP
+   * connection, so no credentials reach a device that may not be this camera.
+   */
+  async isAddressInUse(): Promise<boolean> {
+    const response = await fetch(this.reachableUrl).catch(error => {
+      throw errorFromFetch(error)
+    })
+    if (!response.ok) {
+      throw await errorFromResponse(response)
+    }
+    const body = await response.json()
+    return body.reachable === true
+  }
+
+  /**
+   * Create a client for the same camera credentials at another address
+   */
+  withHost(host: string, port?: number): CameraApiClient {
+    const client = new CameraApiClient({ ...this.settings, host, port: port ?? this.settings.port, password: '' })
+    client.credentialsFrom = this.credentialsFrom ?? { host: this.settings.host, port: this.settings.port || 80 }
+    return client
+  }
+
+  /**
+   * Connection settings this client was created with (password empty once logged in)
+   */
+  getSettings(): ConnectionSettings {
+    return { ...this.settings }
+  }
+
   /**
    * Make a CGI-style API request (key=value format)
+   *
+   * @throws CameraRejectedError when the camera answers Error (some firmware
+   *         does so with HTTP 200), or another typed error from errors.ts
    */
   private async cgiRequest(
     endpoint: string,
     params: Record<string, string> = {}
   ): Promise<string> {
-    const queryString = new URLSearchParams(params).toString()
+    // Spaces as %20 (not +), as in the API examples (e.g. setCurrentTime&time=2011-7-3%2021:02:32)
+    const queryString = new URLSearchParams(params).toString().replace(/\+/g, '%20')
     const url = `${this.baseUrl}/cgi-bin/${endpoint}.cgi${queryString ? '?' + queryString : ''}`
 
     logger.debug('CGI Request:', url)
 
     try {
-      // Always use native fetch with auth header (proxy mode)
+      // The proxy adds the camera credentials from the session cookie
       const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'x-camera-auth': this.authHeader
-        }
+        method: 'GET'
+      }).catch(error => {
+        throw errorFromFetch(error)
       })
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        // Proxy failures come back as a JSON envelope with a code and reason
+        throw await errorFromResponse(response)
       }
 
       const text = await response.text()
       logger.debug('CGI Response:', text.substring(0, 200))
 
+      if (/^Error\b/i.test(text.trim())) {
+        throw new CameraRejectedError(`Camera rejected ${endpoint}.cgi: ${text.trim().split(/\r?\n/).join(' ')}`, text.trim(), response.status)
+      }
+
       return text
     } catch (error) {
       logger.error('CGI request failed:', error)
@@ -76,37 +252,94 @@ export class CameraApiClient {
     }
   }
 
+  /**
+   * Make a CGI request that changes something (the camera answers OK)
+   *
+   * @throws CameraRejectedError if the answer is not OK, or another typed error from errors.ts
+   */
+  private async cgiCommand(endpoint: string, params: Record<string, string>): Promise<void> {
+    const text = await this.cgiRequest(endpoint, params)
+    if (!/\bok\b/i.test(text)) {
+      throw new CameraRejectedError(`Camera rejected ${endpoint}.cgi: ${text.trim() || 'empty answer'}`, text.trim())
+    }
+  }
+
+  /**
+   * Send a userManager call that carries a password
+   *
+   * Posted as JSON to the server's account route rather than proxied, so the
+   * password is never part of a URL (see camera-accounts.mjs).
+   *
+   * @throws CameraRejectedError if the camera refuses, or another typed error from errors.ts
+   */
+  private async accountRequest(params: Record<string, string>): Promise<void> {
+    logger.debug('Account request:', params.action)
+
+    const response = await fetch(this.accountsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params)
+    }).catch(error => {
+      throw errorFromFetch(error)
+    })
+
+    if (!response.ok) {
+      throw await errorFromResponse(response)
+    }
+  }
+
   /**
    * Get device type
+   *
+   * @throws ParseError if the answer has no device type (not an Amcrest/Dahua API)
    */
-  async getDeviceType(): Promise<string | null> {
+  async getDeviceType(): Promise<string> {
     try {
       const text = await this.cgiRequest('magicBox', { action: 'getDeviceType' })
-      const parsed = parseKeyValueResponse(text)
-      return parsed.type || null
+      const type = parseKeyValueResponse(text).type
+      if (!type) {
+        throw new ParseError('Camera did not report a device type; it may not be an Amcrest or Dahua camera', text)
+      }
+      return String(type)
     } catch (error) {
       logger.error('Failed to get device type:', error)
-      return null
+      throw error
     }
   }
 
   /**
    * Get comprehensive system information
+   *
+   * Each field is fetched separately; fields the camera does not support are omitted.
    */
   async getSystemInfo(): Promise<SystemInfo> {
     try {
-      const [deviceType, serialNo, hwVersion, swVersion] = await Promise.all([
-        this.getDeviceType(),
+      const [deviceType, serialNo, hwVersion, swVersion, machineName, vendor, deviceClass, legacyInfo, httpApiVersion, onvifVersion] = await Promise.all([
+        this.getDeviceType().catch(() => null),
         this.getSerialNumber(),
         this.getHardwareVersion(),
-        this.getSoftwareVersion()
+        this.getSoftwareVersion(),
+        this.getMachineName(),
+        this.getVendor(),
+        this.getDeviceClass(),
+        this.getLegacySystemInfo(),
+        this.getInterfaceVersion('CGI'),
+        this.getInterfaceVersion('Onvif')
       ])
+      const software = swVersion ? parseSoftwareVersion(swVersion) : null
 
       return {
+        machineName: machineName || undefined,
         deviceType: deviceType || undefined,
-        serialNumber: serialNo || undefined,
+        deviceClass: deviceClass || undefined,
+        vendor: vendor || undefined,
+        serialNumber: serialNo || legacyInfo.serialNumber || undefined,
+        processor: legacyInfo.processor || undefined,
         hardwareVersion: hwVersion || undefined,
-        softwareVersion: swVersion || undefined
+        softwareVersion: software?.version || undefined,
+        buildDate: software?.buildDate,
+        httpApiVersion: httpApiVersion || undefined,
+        onvifVersion: onvifVersion || undefined
       }
     } catch (error) {
       logger.error('Failed to get system info:', error)
@@ -143,7 +376,7 @@ export class CameraApiClient {
   }
 
   /**
-   * Get software/firmware version
+   * Get software/firmware version (e.g. "2.212.0000.0.R,build:2013-11-14")
    */
   async getSoftwareVersion(): Promise<string | null> {
     try {
@@ -152,13 +385,119 @@ export class CameraApiClient {
       const values = extractSimpleValues(parsed)
 
       // Try different possible keys
-      return values.version || values['Version'] || values.Build || null
+      const version = values.version || values['Version'] || values.Build
+      return version !== undefined ? String(version) : null
     } catch (error) {
       logger.error('Failed to get software version:', error)
       return null
     }
   }
 
+  /**
+   * Get machine name
+   */
+  async getMachineName(): Promise<string | null> {
+    try {
+      const text = await this.cgiRequest('magicBox', { action: 'getMachineName' })
+      const parsed = parseKeyValueResponse(text)
+      return parsed.name !== undefined ? String(parsed.name) : null
+    } catch (error) {
+      logger.error('Failed to get machine name:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get vendor
+   */
+  async getVendor(): Promise<string | null> {
+    try {
+      const text = await this.cgiRequest('magicBox', { action: 'getVendor' })
+      const parsed = parseKeyValueResponse(text)
+      return parsed.vendor !== undefined ? String(parsed.vendor) : null
+    } catch (error) {
+      logger.error('Failed to get vendor:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get device class (e.g. IPC)
+   */
+  async getDeviceClass(): Promise<string | null> {
+    try {
+      const text = await this.cgiRequest('magicBox', { action: 'getDeviceClass' })
+      const parsed = parseKeyValueResponse(text)
+      return parsed.class !== undefined ? String(parsed.class) : null
+    } catch (error) {
+      logger.error('Failed to get device class:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get the legacy getSystemInfo fields (serial number and processor)
+   */
+  async getLegacySystemInfo(): Promise<{ serialNumber?: string, processor?: string }> {
+    try {
+      const text = await this.cgiRequest('magicBox', { action: 'getSystemInfo' })
+      const parsed = parseKeyValueResponse(text)
+      return {
+        ...(parsed.serialNumber !== undefined && { serialNumber: String(parsed.serialNumber) }),
+        ...(parsed.processor !== undefined && { processor: String(parsed.processor) })
+      }
+    } catch (error) {
+      logger.error('Failed to get legacy system info:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Get the HTTP API (CGI) or ONVIF version
+   */
+  async getInterfaceVersion(name: 'CGI' | 'Onvif'): Promise<string | null> {
+    try {
+      const text = await this.cgiRequest('IntervideoManager', { action: 'getVersion', Name: name })
+      const parsed = parseKeyValueResponse(text)
+      return parsed.version !== undefined ? String(parsed.version) : null
+    } catch (error) {
+      logger.error(`Failed to get ${name} version:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Get the camera clock ("2011-7-3 21:02:32", camera local time)
+   */
+  async getCurrentTime(): Promise<string> {
+    try {
+      const text = await this.cgiRequest('global', { action: 'getCurrentTime' })
+      // Some firmware answers "result = ..." with spaces around '='
+      const match = text.match(/result\s*=\s*(.+)/)
+      if (!match) {
+        throw new ParseError('Unexpected getCurrentTime response', text)
+      }
+      return match[1]!.trim()
+    } catch (error) {
+      logger.error('Failed to get current time:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Set the camera clock
+   *
+   * @param time - "Y-M-D H:m:S" in camera local time
+   */
+  async setCurrentTime(time: string): Promise<void> {
+    try {
+      await this.cgiCommand('global', { action: 'setCurrentTime', time })
+    } catch (error) {
+      logger.error('Failed to set current time:', error)
+      throw error
+    }
+  }
+
   /**
    * Get configuration by name
    */
@@ -177,17 +516,60 @@ export class CameraApiClient {
 
   /**
    * Set configuration
+   *
+   * Accepts flat params ('VideoWidget[0].TimeTitle.EncodeBlend': 'true') or a
+   * partial nested config ({ VideoWidget: [{ TimeTitle: { EncodeBlend: true } }] }).
+   * With a baseline (e.g. the getConfig response), only leaves whose value
+   * differs from the baseline are sent.
+   *
+   * @throws CameraRejectedError with the camera's answer if it refuses the
+   *         change, or another typed error from errors.ts
    */
-  async setConfig(params: Record<string, string>): Promise<boolean> {
+  async setConfig(params: Record<string, string>): Promise<void>
+  async setConfig(config: ConfigResponse, baseline?: ConfigResponse): Promise<void>
+  async setConfig(config: ConfigResponse, baseline?: ConfigResponse): Promise<void> {
     try {
+      let params = flattenToKeyValue(config, '', { raw: true })
+
+      if (baseline) {
+        // getConfig responses are wrapped in `table`
+        const base = flattenToKeyValue(baseline.table ?? baseline, '', { raw: true })
+        params = Object.fromEntries(
+          Object.entries(params).filter(([key, value]) => base[key] !== value)
+        )
+      }
+
+      if (Object.keys(params).length === 0) {
+        logger.debug('setConfig: nothing changed, skipping request')
+        return
+      }
+
       const text = await this.cgiRequest('configManager', {
         action: 'setConfig',
         ...params
       })
-      return text.includes('OK') || text.includes('ok')
+      if (!/\bok\b/i.test(text)) {
+        throw new CameraRejectedError(`Camera rejected the settings: ${text.trim() || 'empty answer'}`, text.trim())
+      }
     } catch (error) {
       logger.error('Failed to set config:', error)
-      return false
+      throw error
+    }
+  }
+
+  /**
+   * Get encode config capabilities (supported codecs, resolutions, bitrates, FPS)
+   */
+  async getEncodeConfigCaps(channel: number = 1): Promise<ConfigResponse> {
+    try {
+      const text = await this.cgiRequest('encode', {
+        action: 'getConfigCaps',
+        channel: String(channel)
+      })
+      return parseKeyValueResponse(text)
+    } catch (error) {
+      logger.error('Failed to get encode config caps:', error)
+      throw error
     }
   }
 
@@ -201,27 +583,26 @@ export class CameraApiClient {
   /**
    * Fetch snapshot as Blob
    */
-  async getSnapshot(channel: number = 1): Promise<Blob | null> {
+  async getSnapshot(channel: number = 1): Promise<Blob> {
     try {
       const url = this.getSnapshotUrl(channel)
       logger.debug('Fetching snapshot:', url)
 
-      // Always use native fetch with auth header (proxy mode)
+      // The proxy adds the camera credentials from the session cookie
       const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'x-camera-auth': this.authHeader
-        }
+        method: 'GET'
+      }).catch(error => {
+        throw errorFromFetch(error)
       })
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        throw await errorFromResponse(response)
       }
 
       return await response.blob()
     } catch (error) {
       logger.error('Failed to get snapshot:', error)
-      return null
+      throw error
     }
   }
 
@@ -232,19 +613,495 @@ export class CameraApiClient {
     return `${this.baseUrl}/cgi-bin/mjpg/video.cgi?channel=${channel}&subtype=${subtype}`
   }
 
+  /**
+   * Stream MJPEG frames (with auth) until the signal is aborted or the stream ends
+   *
+   * @param subtype - 0 for the main stream, 1 for the sub stream
+   */
+  async streamMjpeg(
+    channel: number,
+    subtype: number,
+    onFrame: (frame: Blob) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const url = this.getMjpegStreamUrl(channel, subtype)
+    logger.debug('Opening MJPEG stream:', url)
+
+    const response = await fetch(url, {
+      method: 'GET',
+      signal
+    }).catch(error => {
+      throw errorFromFetch(error)
+    })
+
+    if (!response.ok || !response.body) {
+      throw await errorFromResponse(response)
+    }
+
+    await readMjpegStream(response.body, onFrame)
+  }
+
+  /**
+   * Subscribe to camera events (relayed by the server as Server-Sent Events)
+   *
+   * Resolves when the camera ends the stream; rejects on errors.
+   * Abort the signal to unsubscribe.
+   *
+   * @param codes - Event codes to subscribe to (empty for all)
+   * @param onOpen - Called once the relay has attached to the camera
+   */
+  async streamEvents(
+    codes: string[],
+    onEvent: (event: CameraEvent) => void,
+    signal: AbortSignal,
+    onOpen?: () => void
+  ): Promise<void> {
+    const query = codes.length > 0 ? `?codes=${encodeURIComponent(codes.join(','))}` : ''
+    const url = `${this.eventsUrl}${query}`
+    logger.debug('Attaching to event stream:', url)
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'text/event-stream'
+      },
+      signal
+    }).catch(error => {
+      throw errorFromFetch(error)
+    })
+
+    if (!response.ok || !response.body) {
+      throw await errorFromResponse(response)
+    }
+
+    onOpen?.()
+    await readEventStream(response.body, onEvent)
+  }
+
+  /**
+   * Get the all-covers privacy masking switch
+   *
+   * @param channel - Video channel (1-based)
+   * @returns null if the camera does not support PrivacyMasking.cgi
+   */
+  async getPrivacyMaskingEnable(channel: number = 1): Promise<boolean | null> {
+    try {
+      const text = await this.cgiRequest('PrivacyMasking', {
+        action: 'getPrivacyMaskingEnable',
+        channel: String(channel)
+      })
+      const match = text.match(/Enable=(true|false)/i)
+      return match ? match[1]!.toLowerCase() === 'true' : null
+    } catch (error) {
+      logger.warn('PrivacyMasking.cgi not supported:', error)
+      return null
+    }
+  }
+
+  /**
+   * Enable or disable all privacy masking covers at once
+   *
+   * @param channel - Video channel (1-based)
+   */
+  async setPrivacyMaskingEnable(channel: number, enable: boolean): Promise<void> {
+    try {
+      await this.cgiCommand('PrivacyMasking', {
+        action: 'setPrivacyMaskingEnable',
+        channel: String(channel),
+        Enable: String(enable)
+      })
+    } catch (error) {
+      logger.error('Failed to set privacy masking enable:', error)
+      throw error
+    }
+  }
+
   /**
    * Reboot the camera
    */
-  async reboot(): Promise<boolean> {
+  async reboot(): Promise<void> {
     try {
       await this.cgiRequest('magicBox', { action: 'reboot' })
-      return true
     } catch (error) {
       logger.error('Failed to reboot:', error)
-      return false
+      throw error
+    }
+  }
+
+  /**
+   * Reset the camera to factory defaults
+   *
+   * @param keepNetworkAndUsers - Keep network and user settings (type=1), so
+   *   the camera stays reachable at the same address with the same login
+   */
+  async factoryReset(keepNetworkAndUsers: boolean): Promise<void> {
+    try {
+      await this.cgiCommand('magicBox', {
+        action: 'resetSystemEx',
+        type: keepNetworkAndUsers ? '1' : '0'
+      })
+    } catch (error) {
+      logger.error('Failed to factory reset:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get all user accounts
+   */
+  async getUsers(): Promise<CameraUser[]> {
+    try {
+      const text = await this.cgiRequest('userManager', { action: 'getUserInfoAll' })
+      return parseUsers(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get users:', error)
+      throw error
     }
   }
 
+  /**
+   * Get all user groups
+   */
+  async getUserGroups(): Promise<CameraUserGroup[]> {
+    try {
+      const text = await this.cgiRequest('userManager', { action: 'getGroupInfoAll' })
+      return parseGroups(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get user groups:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get currently logged-in sessions
+   */
+  async getActiveUsers(): Promise<ActiveUserSession[]> {
+    try {
+      const text = await this.cgiRequest('userManager', { action: 'getActiveUserInfoAll' })
+      return parseSessions(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get active users:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Add a user account
+   */
+  async addUser(user: CameraUser, password: string): Promise<void> {
+    try {
+      await this.accountRequest({
+        action: 'addUser',
+        ...flattenToKeyValue({ ...buildUserFields(user), Password: password }, 'user', { raw: true })
+      })
+    } catch (error) {
+      logger.error('Failed to add user:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Change a user's name, group, authorities or memo
+   *
+   * @param name - Current user name
+   */
+  async modifyUser(name: string, user: CameraUser): Promise<void> {
+    try {
+      await this.cgiCommand('userManager', {
+        action: 'modifyUser',
+        name,
+        ...flattenToKeyValue(buildUserFields(user), 'user', { raw: true })
+      })
+    } catch (error) {
+      logger.error('Failed to modify user:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a user account
+   */
+  async deleteUser(name: string): Promise<void> {
+    try {
+      await this.cgiCommand('userManager', { action: 'deleteUser', name })
+    } catch (error) {
+      logger.error('Failed to delete user:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Change a user's password (the camera checks the old one)
+   */
+  async modifyPassword(name: string, oldPassword: string, newPassword: string): Promise<void> {
+    try {
+      await this.accountRequest({
+        action: 'modifyPassword',
+        name,
+        pwd: newPassword,
+        pwdOld: oldPassword
+      })
+    } catch (error) {
+      logger.error('Failed to modify password:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Set another user's password without the old one (admin connections only)
+   *
+   * The server adds this connection's credentials (from its vault) as the
+   * manager, which the camera verifies.
+   */
+  async modifyPasswordByManager(userName: string, newPassword: string): Promise<void> {
+    try {
+      await this.accountRequest({
+        action: 'modifyPasswordByManager',
+        userName,
+        pwd: newPassword,
+        accountType: '0'
+      })
+    } catch (error) {
+      logger.error('Failed to reset password:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a mediaFileFind finder object
+   *
+   * @returns Finder object ID (pass to the other media find methods)
+   */
+  async createMediaFinder(): Promise<string> {
+    try {
+      const text = await this.cgiRequest('mediaFileFind', { action: 'factory.create' })
+      // Keep the ID as text (it may have leading zeros)
+      const object = text.match(/result=(\S+)/)?.[1]
+      if (!object) {
+        throw new ParseError('Camera did not return a finder object', text)
+      }
+      return object
+    } catch (error) {
+      logger.error('Failed to create media finder:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Start a search on a finder object
+   *
+   * @returns false if the camera answered Error (most firmware does so when
+   *          nothing matches)
+   */
+  async startMediaFind(object: string, query: MediaSearchQuery): Promise<boolean> {
+    try {
+      await this.cgiCommand('mediaFileFind', {
+        action: 'findFile',
+        object,
+        ...buildFindCondition(query)
+      })
+      return true
+    } catch (error) {
+      if (error instanceof CameraRejectedError) {
+        logger.debug('findFile returned no results:', error)
+        return false
+      }
+      logger.error('Failed to start media search:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch the next page of search results (empty when the search is exhausted)
+   */
+  async findNextMediaFiles(object: string, count: number): Promise<MediaFile[]> {
+    try {
+      const text = await this.cgiRequest('mediaFileFind', {
+        action: 'findNextFile',
+        object,
+        count: String(count)
+      })
+      return parseMediaFiles(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to fetch media files:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Close and destroy a finder object
+   */
+  async closeMediaFinder(object: string): Promise<void> {
+    for (const action of ['close', 'destroy']) {
+      try {
+        await this.cgiRequest('mediaFileFind', { action, object })
+      } catch (error) {
+        logger.warn(`mediaFileFind ${action} failed:`, error)
+      }
+    }
+  }
+
+  /**
+   * Download a recorded file (streamed by the server via RPC_Loadfile)
+   */
+  downloadMediaFile(file: MediaFile, name: string, onError?: (message: string) => void) {
+    submitDownload(this.downloadUrl, { path: file.filePath, name }, onError)
+  }
+
+  /**
+   * Download everything recorded in a time range (loadfile.cgi startLoad)
+   *
+   * @param startTime - Camera local time 'yyyy-MM-dd hh:mm:ss'
+   * @param subtype - 0 = main stream, 1 = sub stream
+   */
+  downloadTimeRange(
+    channel: number,
+    startTime: string,
+    endTime: string,
+    subtype: number,
+    name: string,
+    onError?: (message: string) => void
+  ) {
+    submitDownload(this.downloadUrl, {
+      channel: String(channel),
+      startTime,
+      endTime,
+      subtype: String(subtype),
+      name
+    }, onError)
+  }
+
+  /**
+   * Start a log search
+   *
+   * @returns Search token and number of matching entries (count 0 when nothing matches)
+   */
+  async startLogFind(query: LogSearchQuery): Promise<{ token: string, count: number }> {
+    try {
+      const text = await this.cgiRequest('log', { action: 'startFind', ...buildLogCondition(query) })
+      // Keep the token as text; 0 means nothing was found
+      const token = text.match(/token=(\S+)/)?.[1] ?? '0'
+      const count = Number(text.match(/count=(\d+)/)?.[1] ?? 0)
+      return { token, count: token === '0' ? 0 : count }
+    } catch (error) {
+      logger.error('Failed to start log search:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch log entries from a search, starting at offset
+   *
+   * @param count - Entries to fetch (at most LOG_PAGE_SIZE)
+   */
+  async seekLogEntries(token: string, offset: number, count: number): Promise<CameraLogEntry[]> {
+    try {
+      const text = await this.cgiRequest('log', {
+        action: 'doSeekFind',
+        token,
+        offset: String(offset),
+        count: String(count)
+      })
+      return parseLogEntries(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to fetch log entries:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Release a log search token
+   */
+  async stopLogFind(token: string): Promise<void> {
+    try {
+      await this.cgiRequest('log', { action: 'stopFind', token })
+    } catch (error) {
+      logger.warn('log stopFind failed:', error)
+    }
+  }
+
+  /**
+   * Get storage devices with capacity, usage and state
+   */
+  async getStorageDevices(): Promise<StorageDevice[]> {
+    try {
+      const text = await this.cgiRequest('storageDevice', { action: 'getDeviceAllInfo' })
+      return parseStorageDevices(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get storage devices:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Format a storage device (erases all recordings on it)
+   *
+   * @param name - Device name from getStorageDevices (e.g. '/dev/mmc0')
+   */
+  async formatStorageDevice(name: string): Promise<void> {
+    try {
+      // FormatPatition is the API's spelling
+      await this.cgiCommand('storageDevice', {
+        action: 'setDevice',
+        type: 'FormatPatition',
+        path: name
+      })
+    } catch (error) {
+      logger.error('Failed to format storage device:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Check a firmware file's header against the camera's device type
+   *
+   * Only the header is sent; the server reads the device type from the camera.
+   *
+   * @returns Camera device type, and an error if the file must not be uploaded
+   *          or a warning the user has to confirm before uploading
+   */
+  async checkFirmware(file: File): Promise<FirmwareCheck> {
+    const response = await fetch(`${this.firmwareUrl}/check`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream'
+      },
+      body: file.slice(0, FIRMWARE_HEADER_BYTES)
+    }).catch(error => {
+      throw errorFromFetch(error)
+    })
+
+    // 422 is a refused file, not a failed check
+    if (!response.ok && response.status !== 422) {
+      throw await errorFromResponse(response)
+    }
+    const body = await response.json().catch(() => null)
+    return {
+      deviceType: body?.deviceType ?? '',
+      ...(body?.error && { error: body.error }),
+      ...(body?.warning && { warning: body.warning })
+    }
+  }
+
+  /**
+   * Upload firmware and follow the upgrade until the camera finishes
+   *
+   * @param confirmed The user accepted the check's warning (required if there was one)
+   * @returns Final upgrade state
+   * @throws Error if the file or upgrade is refused
+   */
+  async uploadFirmware(
+    file: File,
+    handlers: FirmwareUploadHandlers = {},
+    confirmed: boolean = false
+  ): Promise<FirmwareUpgradeState> {
+    logger.info('Uploading firmware:', file.name, file.size)
+    return await sendFirmware(this.firmwareUrl, {
+      'x-firmware-name': file.name.replace(/[^\w.\-]/g, '_'),
+      ...(confirmed && { 'x-firmware-confirmed': '1' })
+    }, file, handlers)
+  }
+
   /**
    * PTZ Control
    */
@@ -255,7 +1112,7 @@ export class CameraApiClient {
     arg1: number = 0,
     arg2: number = 0,
     arg3: number = 0
-  ): Promise<boolean> {
+  ): Promise<void> {
     try {
       const params: Record<string, string> = {
         action,
@@ -266,11 +1123,214 @@ export class CameraApiClient {
         arg3: String(arg3)
       }
 
-      const text = await this.cgiRequest('ptz', params)
-      return text.includes('OK') || text.includes('ok')
+      await this.cgiCommand('ptz', params)
     } catch (error) {
       logger.error('PTZ control failed:', error)
-      return false
+      throw error
+    }
+  }
+
+  /**
+   * Get PTZ presets with names and positions
+   *
+   * @param channel - PTZ channel (1-based)
+   */
+  async getPtzPresets(channel: number = 1): Promise<PtzPreset[]> {
+    try {
+      const text = await this.cgiRequest('ptz', { action: 'getPresets', channel: String(channel) })
+      return parsePtzPresets(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get PTZ presets:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get PTZ position and movement state
+   */
+  async getPtzStatus(channel: number = 1): Promise<PtzStatus> {
+    try {
+      const text = await this.cgiRequest('ptz', { action: 'getStatus', channel: String(channel) })
+      return parsePtzStatus(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get PTZ status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get preset, tour and pattern numbering limits of the PTZ protocol
+   */
+  async getPtzCaps(channel: number = 1): Promise<PtzCaps> {
+    try {
+      const text = await this.cgiRequest('ptz', { action: 'getCurrentProtocolCaps', channel: String(channel) })
+      return parsePtzCaps(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get PTZ caps:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Go to, save the current position as, or clear a preset
+   */
+  async ptzPreset(action: PtzPresetAction, channel: number, preset: number): Promise<void> {
+    await this.ptzControl('start', PTZ_PRESET_CODES[action], channel, 0, preset, 0)
+  }
+
+  /**
+   * Rename a preset
+   */
+  async renamePtzPreset(channel: number, preset: number, name: string): Promise<void> {
+    try {
+      await this.cgiCommand('ptz', {
+        action: 'SetPreset',
+        channel: String(channel),
+        arg1: String(preset),
+        arg2: name
+      })
+    } catch (error) {
+      logger.error('Failed to rename PTZ preset:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Start, stop or delete a tour
+   */
+  async ptzTour(action: PtzTourAction, channel: number, tour: number): Promise<void> {
+    await this.ptzControl('start', PTZ_TOUR_CODES[action], channel, tour, 0, 0)
+  }
+
+  /**
+   * Create a tour (or rename an existing one)
+   */
+  async setPtzTour(channel: number, tour: number, name: string): Promise<void> {
+    try {
+      await this.cgiCommand('ptz', {
+        action: 'setTour',
+        channel: String(channel),
+        arg1: String(tour),
+        arg2: name
+      })
+    } catch (error) {
+      logger.error('Failed to set PTZ tour:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Add a preset to the end of a tour, or remove it from the tour
+   */
+  async ptzTourPreset(action: PtzTourPresetAction, channel: number, tour: number, preset: number): Promise<void> {
+    await this.ptzControl('start', PTZ_TOUR_PRESET_CODES[action], channel, tour, preset, 0)
+  }
+
+  /**
+   * Set the current position as a scan limit, or start/stop the scan
+   */
+  async ptzScan(action: PtzScanAction, channel: number, scan: number): Promise<void> {
+    await this.ptzControl('start', PTZ_SCAN_CODES[action], channel, scan, 0, 0)
+  }
+
+  /**
+   * Begin/end recording a pattern, or start/stop replaying it
+   */
+  async ptzPattern(action: PtzPatternAction, channel: number, pattern: number): Promise<void> {
+    await this.ptzControl('start', PTZ_PATTERN_CODES[action], channel, pattern, 0, 0)
+  }
+
+  /**
+   * Start or stop continuous panning
+   */
+  async ptzAutoPan(channel: number, enable: boolean): Promise<void> {
+    await this.ptzControl('start', enable ? 'AutoPanOn' : 'AutoPanOff', channel, 0, 0, 0)
+  }
+
+  /**
+   * 3D positioning: move by an offset from the frame center and zoom by a multiple
+   */
+  async ptzMoveRelative(channel: number, move: PtzRelativeMove): Promise<void> {
+    await this.ptzControl('start', PTZ_POSITION_CODE, channel, move.x, move.y, move.zoom)
+  }
+
+  /**
+   * Move to an absolute pan/tilt (tenths of a degree) and zoom
+   */
+  async ptzMoveAbsolute(channel: number, position: number[]): Promise<void> {
+    const [pan = 0, tilt = 0, zoom = 1] = position
+    await this.ptzControl('start', PTZ_POSITION_ABS_CODE, channel, pan, tilt, zoom)
+  }
+
+  /**
+   * Get video input capabilities (caps.* of devVideoInput.cgi?action=getCaps)
+   */
+  async getVideoInputCaps(channel: number = 1): Promise<Record<string, any>> {
+    try {
+      const text = await this.cgiRequest('devVideoInput', { action: 'getCaps', channel: String(channel) })
+      return parseKeyValueResponse(text).caps ?? {}
+    } catch (error) {
+      logger.error('Failed to get video input caps:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get zoom/focus motor positions and whether autofocus is running
+   */
+  async getFocusStatus(channel: number = 1): Promise<FocusStatus> {
+    try {
+      const text = await this.cgiRequest('devVideoInput', { action: 'getFocusStatus', channel: String(channel) })
+      return parseFocusStatus(parseKeyValueResponse(text))
+    } catch (error) {
+      logger.error('Failed to get focus status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Move the zoom and/or focus motor to a position (0-1); omitted motors stay put
+   */
+  async adjustFocus(channel: number, position: { focus?: number, zoom?: number }): Promise<void> {
+    try {
+      const params: Record<string, string> = { action: 'adjustFocus', channel: String(channel) }
+      if (position.focus !== undefined) params.focus = String(position.focus)
+      if (position.zoom !== undefined) params.zoom = String(position.zoom)
+
+      await this.cgiCommand('devVideoInput', params)
+    } catch (error) {
+      logger.error('Failed to adjust focus:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Drive the zoom and/or focus motor at a rate (-1 to 1, 0 stops); omitted motors are left alone
+   */
+  async adjustFocusContinuously(channel: number, rate: { focus?: number, zoom?: number }): Promise<void> {
+    try {
+      // -1 means "no operation" for this command, so a full reverse rate is not possible
+      await this.cgiCommand('devVideoInput', {
+        action: 'adjustFocusContinuously',
+        channel: String(channel),
+        focus: String(rate.focus ?? -1),
+        zoom: String(rate.zoom ?? -1)
+      })
+    } catch (error) {
+      logger.error('Failed to adjust focus continuously:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Run a one-shot autofocus
+   */
+  async autoFocus(channel: number = 1): Promise<void> {
+    try {
+      await this.cgiCommand('devVideoInput', { action: 'autoFocus', channel: String(channel) })
+    } catch (error) {
+      logger.error('Failed to start autofocus:', error)
+      throw error
     }
   }
 
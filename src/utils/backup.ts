@@ -0,0 +1,171 @@
+/**
+ * Configuration backup and restore
+ *
+ * A backup is one versioned JSON document holding the parsed `table.<Name>`
+ * value of each config fetched through getConfig. Restoring flattens the
+ * backup back to setConfig keys and only sends leaves that differ from the
+ * camera's current config.
+ */
+
+import { logger } from './logger'
+import { flattenToKeyValue } from './parser'
+import type { ConfigBackup, ConfigDiffEntry, ConfigResponse, SystemInfo } from '@/types/camera'
+
+export const BACKUP_FORMAT = 'retro-ipcam-webadmin-backup'
+export const BACKUP_VERSION = 1
+
+// Configs included in a full backup (unsupported ones are skipped)
+export const BACKUP_CONFIG_NAMES = [
+  'ChannelTitle',
+  'VideoWidget',
+  'Encode',
+  'VideoColor',
+  'VideoInOptions',
+  'MotionDetect',
+  'BlindDetect',
+  'LoginFailureAlarm',
+  'Network',
+  'NTP',
+  'RTSP',
+  'Locales',
+  'AutoMaintain',
+  'Record',
+  'RecordMode',
+  'Snap',
+  'Email',
+  'UPnP',
+  'Ptz'
+]
+
+// Configs that can strand the camera if restored onto different hardware
+export const RISKY_CONFIG_NAMES = ['Network']
+
+// Maximum params per setConfig request (keeps URLs short for old firmware)
+const RESTORE_BATCH_SIZE = 40
+
+/**
+ * Fetch each config by name and build a backup document
+ *
+ * @param getConfig - Config fetcher (e.g. useCamera().getConfig)
+ * @param names - Config names to include
+ * @returns Backup document plus the names that could not be read
+ */
+export async function createBackup(
+  getConfig: (name: string) => Promise<ConfigResponse>,
+  camera: SystemInfo & { name?: string },
+  names: string[] = BACKUP_CONFIG_NAMES,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ backup: ConfigBackup, failed: string[] }> {
+  const configs: Record<string, any> = {}
+  const failed: string[] = []
+
+  // Sequential on purpose - older cameras struggle with concurrent requests
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i]!
+    try {
+      const parsed = await getConfig(name)
+      const value = parsed.table?.[name]
+      if (value === undefined) {
+        failed.push(name)
+      } else {
+        configs[name] = value
+      }
+    } catch (error) {
+      logger.warn(`Skipping config ${name} in backup:`, error)
+      failed.push(name)
+    }
+    onProgress?.(i + 1, names.length)
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      camera,
+      configs
+    },
+    failed
+  }
+}
+
+/**
+ * Parse and validate a backup file's contents
+ *
+ * @throws Error if the file is not a supported backup document
+ */
+export function parseBackup(text: string): ConfigBackup {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (data?.format !== BACKUP_FORMAT) {
+    throw new Error('File is not a camera configuration backup')
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${data.version}`)
+  }
+  if (!data.configs || typeof data.configs !== 'object') {
+    throw new Error('Backup contains no configs')
+  }
+
+  return data as ConfigBackup
+}
+
+/**
+ * Compare a config's current value with its backup value
+ *
+ * @returns Leaves whose backup value differs from (or is missing on) the camera
+ */
+export function diffConfig(name: string, current: any, backup: any): ConfigDiffEntry[] {
+  const currentFlat = flattenToKeyValue(current, name, { raw: true })
+  const backupFlat = flattenToKeyValue(backup, name, { raw: true })
+
+  return Object.entries(backupFlat)
+    .filter(([key, value]) => currentFlat[key] !== value)
+    .map(([key, value]) => ({ key, current: currentFlat[key], backup: value }))
+}
+
+/**
+ * Download a backup document as a JSON file
+ */
+export function downloadBackup(backup: ConfigBackup, baseName: string): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const date = backup.createdAt.slice(0, 10)
+  const safeName = baseName.replace(/[^\w.-]+/g, '_') || 'camera'
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${safeName}-config-${date}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Push diff entries back to the camera in batches
+ *
+ * @param setConfig - Config writer (e.g. useCamera().setConfig)
+ * @returns Keys whose batch the camera rejected
+ */
+export async function restoreEntries(
+  setConfig: (params: Record<string, string>) => Promise<void>,
+  entries: ConfigDiffEntry[]
+): Promise<string[]> {
+  const failed: string[] = []
+
+  for (let i = 0; i < entries.length; i += RESTORE_BATCH_SIZE) {
+    const batch = entries.slice(i, i + RESTORE_BATCH_SIZE)
+    const params = Object.fromEntries(batch.map(entry => [entry.key, entry.backup]))
+    try {
+      await setConfig(params)
+    } catch {
+      failed.push(...batch.map(entry => entry.key))
+    }
+  }
+
+  return failed
+}
@@ -0,0 +1,105 @@
+/**
+ * Saved camera list stored in localStorage
+ *
+ * Each camera is a named entry with its own encrypted settings blob
+ * (see crypto.ts), so every camera is unlocked with its own password.
+ * The pre-fleet single-camera blob is migrated into the list on first load.
+ */
+
+import { logger } from './logger'
+import type { SavedCamera } from '@/types/camera'
+
+const CAMERA_LIST_KEY = 'camera-list'
+const LEGACY_ENCRYPTED_KEY = 'camera-connection-settings-encrypted'
+
+/**
+ * Generate a new local camera ID
+ */
+export function createCameraId(): string {
+  return `cam-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Write the camera list to localStorage
+ */
+function writeSavedCameras(cameras: SavedCamera[]): void {
+  localStorage.setItem(CAMERA_LIST_KEY, JSON.stringify(cameras))
+}
+
+/**
+ * Load the saved camera list, migrating legacy single-camera settings
+ *
+ * @returns Saved cameras in the order they were added
+ */
+export function loadSavedCameras(): SavedCamera[] {
+  try {
+    const saved = localStorage.getItem(CAMERA_LIST_KEY)
+    if (saved) {
+      return JSON.parse(saved) as SavedCamera[]
+    }
+
+    // Migrate the old single encrypted blob into the list
+    const legacy = localStorage.getItem(LEGACY_ENCRYPTED_KEY)
+    if (legacy) {
+      const migrated: SavedCamera[] = [{
+        id: createCameraId(),
+        name: 'Camera 1',
+        encryptedSettings: legacy
+      }]
+      writeSavedCameras(migrated)
+      localStorage.removeItem(LEGACY_ENCRYPTED_KEY)
+      logger.info('Migrated legacy encrypted settings into camera list')
+      return migrated
+    }
+  } catch (error) {
+    logger.error('Failed to load saved cameras:', error)
+  }
+  return []
+}
+
+/**
+ * Find a saved camera by ID
+ */
+export function getSavedCamera(id: string): SavedCamera | null {
+  return loadSavedCameras().find(camera => camera.id === id) || null
+}
+
+/**
+ * Add or update a saved camera entry
+ */
+export function saveCamera(camera: SavedCamera): void {
+  const cameras = loadSavedCameras()
+  const index = cameras.findIndex(existing => existing.id === camera.id)
+
+  if (index === -1) {
+    cameras.push(camera)
+  } else {
+    cameras[index] = camera
+  }
+
+  writeSavedCameras(cameras)
+  logger.debug('Saved camera:', camera.id, camera.name)
+}
+
+/**
+ * Remove a saved camera entry
+ */
+export function removeSavedCamera(id: string): void {
+  writeSavedCameras(loadSavedCameras().filter(camera => camera.id !== id))
+  logger.debug('Removed saved camera:', id)
+}
+
+/**
+ * Check if any saved cameras exist
+ */
+export function hasSavedCameras(): boolean {
+  return loadSavedCameras().length > 0
+}
+
+/**
+ * Clear the entire camera list (and any legacy settings)
+ */
+export function clearSavedCameras(): void {
+  localStorage.removeItem(CAMERA_LIST_KEY)
+  localStorage.removeItem(LEGACY_ENCRYPTED_KEY)
+}
@@ -6,6 +6,10 @@
  * - User password → PBKDF2 derivation → AES-GCM key
  * - Settings are encrypted as JSON → encrypted blob → base64 storage
  * - Salt and IV are randomly generated per encryption and stored with ciphertext
+ * - Each saved camera carries its own payload (see cameraStore.ts)
+ * - A connected camera keeps a SettingsKey (derived key + its salt) instead of
+ *   the password, so its settings can be saved again (e.g. after an address
+ *   change) without the password staying in memory
  */
 
 import { logger } from './logger'
@@ -26,6 +30,8 @@ interface EncryptableSettings {
   port: number
   username: string
   secure: boolean
+  allowSelfSigned?: boolean
+  certFingerprint?: string
   debugEnabled: boolean
   // proxyMode removed - always true
 }
@@ -39,6 +45,14 @@ interface EncryptedPayload {
   ciphertext: string // Base64-encoded encrypted data
 }
 
+/**
+ * Derived key for re-encrypting one camera's settings (the key cannot be exported)
+ */
+export interface SettingsKey {
+  salt: Uint8Array<ArrayBuffer>
+  key: CryptoKey
+}
+
 /**
  * Derive AES key from password using PBKDF2
  */
@@ -97,6 +111,14 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer
 }
 
+/**
+ * Derive a settings key from the user's password, with a new random salt
+ */
+export async function createSettingsKey(password: string): Promise<SettingsKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+  return { salt, key: await deriveKey(password, salt) }
+}
+
 /**
  * Encrypt connection settings (except password) using user's password
  *
@@ -107,6 +129,21 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
 export async function encryptSettings(
   settings: ConnectionSettings,
   password: string
+): Promise<string> {
+  return await encryptSettingsWithKey(settings, await createSettingsKey(password))
+}
+
+/**
+ * Encrypt connection settings (except password) with a derived settings key
+ *
+ * The payload carries the key's salt, so decryptSettings() reads it with
+ * the password as usual. Each call uses a new IV.
+ *
+ * @returns Encrypted payload as JSON string, ready for localStorage
+ */
+export async function encryptSettingsWithKey(
+  settings: Omit<ConnectionSettings, 'password'>,
+  { salt, key }: SettingsKey
 ): Promise<string> {
   try {
     // Extract encryptable settings (never store password)
@@ -115,16 +152,14 @@ export async function encryptSettings(
       port: settings.port,
       username: settings.username,
       secure: settings.secure,
+      allowSelfSigned: !!settings.allowSelfSigned,
+      certFingerprint: settings.certFingerprint || '',
       debugEnabled: settings.debugEnabled
     }
 
-    // Generate random salt and IV
-    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+    // Generate random IV (the salt comes with the key)
     const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
 
-    // Derive encryption key from password
-    const key = await deriveKey(password, salt)
-
     // Encrypt settings
     const encoder = new TextEncoder()
     const plaintext = encoder.encode(JSON.stringify(encryptable))
@@ -205,13 +240,3 @@ export async function decryptSettings(
     throw new Error('Failed to decrypt settings')
   }
 }
-
-/**
- * Check if encrypted settings exist in localStorage
- *
- * @returns true if encrypted settings are present
- */
-export function hasEncryptedSettings(): boolean {
-  const encrypted = localStorage.getItem('camera-connection-settings-encrypted')
-  return encrypted !== null && encrypted.length > 0
-}
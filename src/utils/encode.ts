@@ -0,0 +1,256 @@
+/**
+ * Helpers for the Encode config and encode config capabilities
+ *
+ * Config:  table.Encode[ch].MainFormat[0].Video.*  /  table.Encode[ch].ExtraFormat[0].Video.*
+ * Caps:    caps.MainFormat[0].Video.*  /  caps.ExtraFormat[0].Video.*
+ */
+
+import type { EncodeConfig, EncodeCaps, EncodeStream } from '@/types/camera'
+
+// Bitrate control modes accepted by Video.BitRateControl
+export const BITRATE_CONTROLS = ['CBR', 'VBR']
+
+// Common bitrate steps (kbps), filtered by the camera's BitRateOptions range
+const BITRATE_STEPS = [
+  32, 48, 64, 80, 96, 128, 160, 192, 224, 256, 320, 384, 448, 512, 640, 768,
+  896, 1024, 1280, 1536, 1792, 2048, 3072, 4096, 6144, 8192, 10240, 12288, 16384
+]
+
+// Fixed resolution names from the API appendix (PAL sizes where they differ)
+const NAMED_RESOLUTIONS: Record<string, [number, number]> = {
+  'D1': [704, 576],
+  'HD1': [352, 576],
+  'BCIF': [704, 288],
+  '2CIF': [704, 288],
+  'CIF': [352, 288],
+  'QCIF': [176, 144],
+  'NHD': [640, 360],
+  'VGA': [640, 480],
+  'QVGA': [320, 240],
+  'SVCD': [480, 480],
+  'QQVGA': [160, 128],
+  'SVGA': [800, 592],
+  'SVGA1': [800, 600],
+  'WVGA': [800, 480],
+  'FWVGA': [854, 480],
+  'DVGA': [960, 640],
+  'XVGA': [1024, 768],
+  'WXGA': [1280, 800],
+  'WXGA2': [1280, 768],
+  'WXGA3': [1280, 854],
+  'WXGA4': [1366, 768],
+  'SXGA': [1280, 1024],
+  'SXGA+': [1400, 1050],
+  'WSXGA': [1600, 1024],
+  'UXGA': [1600, 1200],
+  'WUXGA': [1920, 1200],
+  'ND1': [240, 192],
+  '720': [1280, 720],
+  '720P': [1280, 720],
+  '1080': [1920, 1080],
+  '1080P': [1920, 1080],
+  'QFHD': [3840, 2160],
+  '1_3M': [1280, 960],
+  '2_5M': [1872, 1408],
+  '5M': [3744, 1408],
+  '3M': [2048, 1536],
+  '5_0M': [2432, 2048],
+  '1_2M': [1216, 1024],
+  '5_1M': [2560, 1920],
+  '960H': [960, 576],
+  'DV720P': [960, 720]
+}
+
+/**
+ * Split a comma-separated caps value into trimmed entries
+ */
+function splitList(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return []
+  return String(value).split(',').map(item => item.trim()).filter(item => item !== '')
+}
+
+/**
+ * Normalize a resolution name or 'W x H' value to 'WIDTHxHEIGHT'
+ *
+ * @returns Normalized resolution, or null if unknown
+ */
+export function normalizeResolution(value: string): string | null {
+  const compact = value.replace(/\s+/g, '')
+  const sizeMatch = compact.match(/^(\d+)[xX*](\d+)$/)
+  if (sizeMatch) {
+    return `${sizeMatch[1]}x${sizeMatch[2]}`
+  }
+
+  const named = NAMED_RESOLUTIONS[compact.toUpperCase()]
+  return named ? `${named[0]}x${named[1]}` : null
+}
+
+/**
+ * Split a normalized resolution into width and height
+ */
+export function parseResolution(resolution: string): { width: number, height: number } | null {
+  const match = resolution.match(/^(\d+)x(\d+)$/)
+  if (!match) return null
+  return { width: parseInt(match[1]!, 10), height: parseInt(match[2]!, 10) }
+}
+
+/**
+ * Config key prefix for a stream, e.g. 'Encode[0].MainFormat[0]'
+ */
+export function encodeStreamHead(stream: EncodeStream, channelIndex: number = 0): string {
+  return `Encode[${channelIndex}].${stream === 'main' ? 'MainFormat' : 'ExtraFormat'}[0]`
+}
+
+/**
+ * Extract a stream's video settings from a parsed Encode config
+ */
+export function parseEncodeConfig(
+  parsed: Record<string, any>,
+  stream: EncodeStream,
+  channelIndex: number = 0
+): EncodeConfig {
+  const encode = parsed.table?.Encode?.[channelIndex]
+  const format = stream === 'main' ? encode?.MainFormat?.[0] : encode?.ExtraFormat?.[0]
+  const video = format?.Video
+
+  if (!video) return {}
+
+  return {
+    videoCodec: video.Compression !== undefined ? String(video.Compression) : undefined,
+    resolution: video.Width && video.Height ? `${video.Width}x${video.Height}` : undefined,
+    frameRate: typeof video.FPS === 'number' ? video.FPS : undefined,
+    bitRate: typeof video.BitRate === 'number' ? video.BitRate : undefined,
+    bitrateControl: video.BitRateControl !== undefined ? String(video.BitRateControl) : undefined
+  }
+}
+
+/**
+ * Extract a stream's video capabilities from a parsed getConfigCaps response
+ */
+export function parseEncodeCaps(parsed: Record<string, any>, stream: EncodeStream): EncodeCaps {
+  const format = stream === 'main' ? parsed.caps?.MainFormat?.[0] : parsed.caps?.ExtraFormat?.[0]
+  const video = format?.Video ?? {}
+
+  const resolutions: string[] = []
+  for (const name of splitList(video.ResolutionTypes)) {
+    const normalized = normalizeResolution(name)
+    if (normalized && !resolutions.includes(normalized)) {
+      resolutions.push(normalized)
+    }
+  }
+
+  const [min, max] = splitList(video.BitRateOptions).map(Number)
+
+  return {
+    compressionTypes: splitList(video.CompressionTypes),
+    resolutions,
+    bitRateMin: Number.isFinite(min) ? min : undefined,
+    bitRateMax: Number.isFinite(max) ? max : undefined,
+    fpsMax: typeof video.FPSMax === 'number' ? video.FPSMax : undefined
+  }
+}
+
+/**
+ * Bitrate choices within the camera's supported range
+ *
+ * @param current - Current bitrate, always included so the select can show it
+ */
+export function bitRateOptions(caps: EncodeCaps, current?: number): number[] {
+  const min = caps.bitRateMin ?? 0
+  const max = caps.bitRateMax ?? Infinity
+  const options = BITRATE_STEPS.filter(step => step >= min && step <= max)
+
+  if (current !== undefined && current >= min && current <= max && !options.includes(current)) {
+    options.push(current)
+    options.sort((a, b) => a - b)
+  }
+  return options
+}
+
+/**
+ * Frame rate choices up to the camera's FPSMax
+ */
+export function frameRateOptions(caps: EncodeCaps): number[] {
+  const max = caps.fpsMax ?? 30
+  return Array.from({ length: Math.floor(max) }, (_, i) => i + 1)
+}
+
+/**
+ * Validate encode settings against the camera's capabilities
+ *
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateEncodeConfig(config: EncodeConfig, caps: EncodeCaps): string[] {
+  const errors: string[] = []
+
+  if (config.videoCodec !== undefined && caps.compressionTypes.length > 0 &&
+      !caps.compressionTypes.includes(config.videoCodec)) {
+    errors.push(`Codec ${config.videoCodec} is not supported`)
+  }
+
+  if (config.resolution !== undefined) {
+    if (!parseResolution(config.resolution)) {
+      errors.push(`Resolution ${config.resolution} is invalid`)
+    } else if (caps.resolutions.length > 0 && !caps.resolutions.includes(config.resolution)) {
+      errors.push(`Resolution ${config.resolution} is not supported`)
+    }
+  }
+
+  if (config.frameRate !== undefined) {
+    if (config.frameRate <= 0 || (caps.fpsMax !== undefined && config.frameRate > caps.fpsMax)) {
+      errors.push(`Frame rate must be between 1 and ${caps.fpsMax ?? 100} fps`)
+    }
+  }
+
+  if (config.bitRate !== undefined) {
+    if ((caps.bitRateMin !== undefined && config.bitRate < caps.bitRateMin) ||
+        (caps.bitRateMax !== undefined && config.bitRate > caps.bitRateMax)) {
+      errors.push(`Bitrate must be between ${caps.bitRateMin ?? 0} and ${caps.bitRateMax ?? '∞'} kbps`)
+    }
+  }
+
+  if (config.bitrateControl !== undefined && !BITRATE_CONTROLS.includes(config.bitrateControl)) {
+    errors.push(`Bitrate control ${config.bitrateControl} is not supported`)
+  }
+
+  return errors
+}
+
+/**
+ * Build setConfig params for the fields that differ from the original
+ */
+export function buildEncodeParams(
+  stream: EncodeStream,
+  config: EncodeConfig,
+  original: EncodeConfig,
+  channelIndex: number = 0
+): Record<string, string> {
+  const head = encodeStreamHead(stream, channelIndex)
+  const params: Record<string, string> = {}
+
+  if (config.videoCodec !== undefined && config.videoCodec !== original.videoCodec) {
+    params[`${head}.Video.Compression`] = config.videoCodec
+  }
+
+  if (config.resolution !== undefined && config.resolution !== original.resolution) {
+    const size = parseResolution(config.resolution)
+    if (size) {
+      params[`${head}.Video.Width`] = String(size.width)
+      params[`${head}.Video.Height`] = String(size.height)
+    }
+  }
+
+  if (config.frameRate !== undefined && config.frameRate !== original.frameRate) {
+    params[`${head}.Video.FPS`] = String(config.frameRate)
+  }
+
+  if (config.bitRate !== undefined && config.bitRate !== original.bitRate) {
+    params[`${head}.Video.BitRate`] = String(config.bitRate)
+  }
+
+  if (config.bitrateControl !== undefined && config.bitrateControl !== original.bitrateControl) {
+    params[`${head}.Video.BitRateControl`] = config.bitrateControl
+  }
+
+  return params
+}
@@ -0,0 +1,196 @@
+/**
+ * Camera request errors
+ *
+ * CameraApiClient throws these instead of returning false or null, so callers
+ * can tell a wrong password from an unreachable camera, a timeout or a device
+ * that isn't an Amcrest camera. The server answers failures with a JSON
+ * envelope (see camera-errors.mjs), whose code picks the class:
+ *
+ *   { error: 'Camera rejected the username or password', code: 'CAMERA_AUTH',
+ *     cameraStatus?: 401, detail?: 'Error\r\nBad Request!', tls?: { code, fingerprint } }
+ */
+
+// TLS problem reported by the server (fingerprint of the certificate offered, if read)
+export interface TlsProblem {
+  code: string
+  fingerprint?: string | null
+}
+
+// Error envelope of the camera routes
+export interface ErrorEnvelope {
+  error?: string
+  code?: string
+  cameraStatus?: number
+  detail?: string
+  tls?: TlsProblem
+}
+
+/**
+ * Base class: a failed camera request
+ *
+ * code is the server's envelope code (e.g. HOST_NOT_ALLOWED), status the HTTP
+ * status the server answered with (undefined if it was never reached).
+ */
+export class CameraError extends Error {
+  readonly code: string
+  readonly status?: number
+
+  constructor(message: string, code: string = 'CAMERA_ERROR', status?: number) {
+    super(message)
+    this.name = 'CameraError'
+    this.code = code
+    this.status = status
+  }
+}
+
+/**
+ * Credentials refused: by the camera, or the camera/admin session expired
+ */
+export class AuthError extends CameraError {
+  constructor(message: string, code: string = 'CAMERA_AUTH', status: number = 401) {
+    super(message, code, status)
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * Camera (or the server) could not be reached: refused, host not found, TLS problem
+ */
+export class UnreachableError extends CameraError {
+  readonly tls: TlsProblem | null
+
+  constructor(message: string, code: string = 'CAMERA_UNREACHABLE', status?: number, tls: TlsProblem | null = null) {
+    super(message, code, status)
+    this.name = 'UnreachableError'
+    this.tls = tls
+  }
+}
+
+/**
+ * No answer in time (or too many requests already waiting for the camera)
+ */
+export class TimeoutError extends CameraError {
+  constructor(message: string, code: string = 'CAMERA_TIMEOUT', status?: number) {
+    super(message, code, status)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Camera answered with an error; body is what it sent (usually "Error\r\n...")
+ */
+export class CameraRejectedError extends CameraError {
+  readonly body: string
+  readonly cameraStatus?: number
+
+  constructor(message: string, body: string, cameraStatus?: number, status?: number) {
+    super(message, 'CAMERA_REJECTED', status)
+    this.name = 'CameraRejectedError'
+    this.body = body
+    this.cameraStatus = cameraStatus
+  }
+}
+
+/**
+ * Camera answered something that could not be read (e.g. not an Amcrest/Dahua API)
+ */
+export class ParseError extends CameraError {
+  readonly body: string
+
+  constructor(message: string, body: string = '', status?: number) {
+    super(message, 'UNEXPECTED_RESPONSE', status)
+    this.name = 'ParseError'
+    this.body = body
+  }
+}
+
+const AUTH_CODES = ['CAMERA_AUTH', 'SESSION_REQUIRED', 'LOGIN_REQUIRED', 'LOGIN_FAILED']
+const TIMEOUT_CODES = ['CAMERA_TIMEOUT', 'CAMERA_BUSY']
+
+/**
+ * Typed error for a server error envelope
+ */
+export function errorFromEnvelope(envelope: ErrorEnvelope, status?: number): CameraError {
+  const message = envelope.error || `HTTP ${status}`
+  const code = envelope.code || 'CAMERA_ERROR'
+
+  if (AUTH_CODES.includes(code)) return new AuthError(message, code, status)
+  if (TIMEOUT_CODES.includes(code)) return new TimeoutError(message, code, status)
+  if (code === 'CAMERA_UNREACHABLE' || code === 'CAMERA_TLS') {
+    return new UnreachableError(message, code, status, envelope.tls ?? null)
+  }
+  if (code === 'CAMERA_REJECTED') {
+    return new CameraRejectedError(message, envelope.detail ?? '', envelope.cameraStatus, status)
+  }
+  if (code === 'UNEXPECTED_RESPONSE') return new ParseError(message, envelope.detail ?? '', status)
+  return new CameraError(message, code, status)
+}
+
+/**
+ * Typed error for a failed (non-2xx) response
+ *
+ * Responses without the envelope come from the dev proxy (the server is down)
+ * or from something other than the server.
+ */
+export async function errorFromResponse(response: Response): Promise<CameraError> {
+  const text = await response.text().catch(() => '')
+  let envelope: ErrorEnvelope | null = null
+  try {
+    envelope = response.headers.get('content-type')?.includes('application/json') ? JSON.parse(text) : null
+  } catch {
+    // Not JSON after all
+  }
+  if (envelope?.error || envelope?.code) {
+    return errorFromEnvelope(envelope, response.status)
+  }
+
+  const message = `HTTP ${response.status}: ${response.statusText}`
+  if (response.status === 401 || response.status === 403) return new AuthError(message, 'LOGIN_REQUIRED', response.status)
+  if (response.status === 504) return new TimeoutError(`Server did not answer in time (${message})`, 'SERVER_TIMEOUT', response.status)
+  if (response.status === 502 || response.status === 503) {
+    return new UnreachableError(`Server not reachable (${message})`, 'SERVER_UNREACHABLE', response.status)
+  }
+  return new CameraRejectedError(message, text.trim(), undefined, response.status)
+}
+
+/**
+ * Typed error for a fetch that threw (no response at all)
+ *
+ * Aborts by the caller are passed through unchanged.
+ */
+export function errorFromFetch(error: unknown): unknown {
+  if (error instanceof CameraError) return error
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new TimeoutError('Request timed out', 'REQUEST_TIMEOUT')
+  }
+  if (error instanceof TypeError) {
+    return new UnreachableError(`Server not reachable: ${error.message}`, 'SERVER_UNREACHABLE')
+  }
+  return error
+}
+
+/**
+ * Message for a failed camera action, by error type
+ *
+ * @param refused - What to tell the user when the camera itself refused the
+ *   action (e.g. "check the current password")
+ */
+export function describeError(error: unknown, refused: string): string {
+  if (error instanceof AuthError) {
+    return error.code === 'LOGIN_REQUIRED'
+      ? 'Your admin session ended. Reload the page and sign in again.'
+      : 'The camera no longer accepts this connection\'s login. Connect again with the current password.'
+  }
+  if (error instanceof UnreachableError) {
+    return error.code === 'SERVER_UNREACHABLE'
+      ? 'The admin server is not answering. Check that it is running.'
+      : 'Camera not reachable. Check that it is powered on and on the network.'
+  }
+  if (error instanceof TimeoutError) {
+    return 'Camera did not answer in time. Wait a moment and try again.'
+  }
+  if (error instanceof CameraRejectedError) {
+    return refused
+  }
+  return (error as Error | undefined)?.message || refused
+}
@@ -0,0 +1,87 @@
+/**
+ * Camera event stream helpers
+ *
+ * The server relays eventManager.cgi?action=attach as Server-Sent Events
+ * (see event-relay.mjs). Each camera event arrives as:
+ *   event: camera-event
+ *   data: {"code":"VideoMotion","action":"Start","index":0}
+ */
+
+import type { CameraEvent } from '@/types/camera'
+
+// Commonly supported event codes with display labels and icons
+export const EVENT_CODES: { code: string, label: string, icon: string }[] = [
+  { code: 'VideoMotion', label: 'Motion', icon: 'bi-person-walking' },
+  { code: 'VideoBlind', label: 'Video Blind', icon: 'bi-eye-slash' },
+  { code: 'VideoLoss', label: 'Video Loss', icon: 'bi-camera-video-off' },
+  { code: 'AlarmLocal', label: 'Alarm Input', icon: 'bi-bell' },
+  { code: 'LoginFailure', label: 'Login Failure', icon: 'bi-shield-exclamation' },
+  { code: 'StorageNotExist', label: 'No Storage', icon: 'bi-sd-card' },
+  { code: 'StorageFailure', label: 'Storage Failure', icon: 'bi-exclamation-octagon' },
+  { code: 'StorageLowSpace', label: 'Low Storage', icon: 'bi-hdd' }
+]
+
+/**
+ * Display label for an event code (falls back to the code itself)
+ */
+export function eventLabel(code: string): string {
+  return EVENT_CODES.find(entry => entry.code === code)?.label ?? code
+}
+
+/**
+ * Icon for an event code
+ */
+export function eventIcon(code: string): string {
+  return EVENT_CODES.find(entry => entry.code === code)?.icon ?? 'bi-lightning'
+}
+
+/**
+ * Read a Server-Sent Events body until it ends, calling onEvent per camera event
+ *
+ * @throws Error if the relay reports an error event
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: CameraEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return
+
+    buffer += decoder.decode(value, { stream: true })
+    let index: number
+    while ((index = buffer.search(/\r?\n\r?\n/)) >= 0) {
+      const block = buffer.slice(0, index)
+      buffer = buffer.slice(index).replace(/^\r?\n\r?\n/, '')
+      const message = parseSseBlock(block)
+      if (!message) continue
+
+      if (message.event === 'camera-event') {
+        onEvent({ ...JSON.parse(message.data), receivedAt: Date.now() })
+      } else if (message.event === 'error') {
+        throw new Error(JSON.parse(message.data).error || 'Event stream failed')
+      } else if (message.event === 'end') {
+        return
+      }
+    }
+  }
+}
+
+/**
+ * Parse one SSE message block (comments such as heartbeats return null)
+ */
+export function parseSseBlock(block: string): { event: string, data: string } | null {
+  let event = 'message'
+  const data: string[] = []
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null
+}
@@ -0,0 +1,126 @@
+/**
+ * Firmware upgrade helpers (API §4.12)
+ *
+ * The server checks the package header against the camera's device type
+ * (an unknown type is a warning the user confirms with x-firmware-confirmed),
+ * streams the file to upgrader.cgi?action=uploadFirmware and relays
+ * getState as Server-Sent Events (see firmware-upgrade.mjs):
+ *   event: uploaded -> event: state (repeated) -> event: end
+ */
+
+import type { FirmwareUpgradeState } from '@/types/camera'
+import { parseSseBlock } from './events'
+
+// Bytes sent to the server's header check (matches firmware-upgrade.mjs)
+export const FIRMWARE_HEADER_BYTES = 64 * 1024
+
+// How long to wait for the camera to answer again after the upgrade reboot
+export const REBOOT_WAIT_TIMEOUT_MS = 5 * 60 * 1000
+
+const UPGRADE_STATE_LABELS: Record<string, string> = {
+  Preparing: 'Preparing upgrade',
+  Downloading: 'Receiving firmware',
+  Upgrading: 'Writing firmware',
+  Rebooting: 'Rebooting',
+  Succeeded: 'Upgrade complete',
+  Failed: 'Upgrade failed',
+  Invalid: 'Camera rejected the firmware as invalid',
+  DownloadFailed: 'Firmware transfer failed',
+  Cancelled: 'Upgrade cancelled',
+  NotEnoughMemory: 'Camera does not have enough memory for this firmware'
+}
+
+// Progress callbacks for sendFirmware
+export interface FirmwareUploadHandlers {
+  onUploadProgress?: (sent: number, total: number) => void
+  onUploaded?: () => void
+  onState?: (state: FirmwareUpgradeState) => void
+}
+
+/**
+ * Display label for an upgrade state (falls back to the state itself)
+ */
+export function upgradeStateLabel(state: string): string {
+  return UPGRADE_STATE_LABELS[state] ?? state
+}
+
+/**
+ * Whether a final upgrade state means the new firmware is installed
+ */
+export function isUpgradeSuccess(state: FirmwareUpgradeState): boolean {
+  return state.state === 'Succeeded' || Boolean(state.rebooted)
+}
+
+/**
+ * Upload a firmware file and follow the upgrade until it finishes
+ *
+ * Uses XMLHttpRequest for upload progress; the progress events stream back
+ * in the same response once the camera has accepted the file.
+ *
+ * @returns Final upgrade state
+ * @throws Error if the server or camera refuses the firmware
+ */
+export function sendFirmware(
+  url: string,
+  headers: Record<string, string>,
+  file: File,
+  handlers: FirmwareUploadHandlers = {}
+): Promise<FirmwareUpgradeState> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    let offset = 0
+    let buffer = ''
+    let final: FirmwareUpgradeState | null = null
+    let failure: string | null = null
+
+    const readEvents = () => {
+      if (xhr.status !== 200) return
+      buffer += xhr.responseText.slice(offset)
+      offset = xhr.responseText.length
+
+      let index: number
+      while ((index = buffer.search(/\r?\n\r?\n/)) >= 0) {
+        const message = parseSseBlock(buffer.slice(0, index))
+        buffer = buffer.slice(index).replace(/^\r?\n\r?\n/, '')
+        if (!message) continue
+
+        const data = JSON.parse(message.data)
+        if (message.event === 'uploaded') handlers.onUploaded?.()
+        else if (message.event === 'state') handlers.onState?.(data)
+        else if (message.event === 'end') final = data
+        else if (message.event === 'error') failure = data.error || 'Firmware upgrade failed'
+      }
+    }
+
+    xhr.open('POST', url)
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value)
+    }
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) handlers.onUploadProgress?.(event.loaded, event.total)
+    }
+    xhr.onprogress = readEvents
+    xhr.onload = () => {
+      if (xhr.status !== 200) {
+        let message = `HTTP ${xhr.status}: ${xhr.statusText}`
+        try {
+          message = JSON.parse(xhr.responseText).error || message
+        } catch {
+          // Not JSON - keep the status text
+        }
+        reject(new Error(message))
+        return
+      }
+
+      readEvents()
+      if (failure) reject(new Error(failure))
+      else if (final) resolve(final)
+      else reject(new Error('Upgrade progress stream ended unexpectedly'))
+    }
+    xhr.onerror = () => reject(new Error('Lost connection to the server during the firmware upgrade'))
+
+    xhr.send(file)
+  })
+}
@@ -0,0 +1,56 @@
+/**
+ * Motorized lens helpers (API §5.6)
+ *
+ * Cameras whose video input caps report ElectricFocus or SyncFocus drive the
+ * lens motors with devVideoInput.cgi (adjustFocus, adjustFocusContinuously,
+ * autoFocus, getFocusStatus). Motor positions are fractions in [0, 1].
+ * VideoInZoom and VideoInFocus are indexed [channel][profile] like the
+ * image configs.
+ */
+
+import type { FocusStatus } from '@/types/camera'
+
+export const LENS_CONFIG_NAMES = ['VideoInZoom', 'VideoInFocus']
+
+// Rate sent while a zoom/focus button is held (adjustFocusContinuously, [-1, 1])
+export const LENS_CONTINUOUS_RATE = 0.5
+
+export const FOCUS_MODES = [
+  { value: 2, label: 'Auto' },
+  { value: 3, label: 'Semi-auto (focus once, then lock)' },
+  { value: 4, label: 'Manual' }
+]
+
+export const FOCUS_SENSITIVITIES = [
+  { value: 0, label: 'High' },
+  { value: 1, label: 'Default' },
+  { value: 2, label: 'Low' }
+]
+
+export const FOCUS_LIMIT_MODES = ['Auto', 'Manual']
+
+export const IR_CORRECTION_MODES = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: 'Manual' },
+  { value: 2, label: 'Auto' }
+]
+
+/**
+ * Whether the video input caps report motor-driven zoom/focus
+ */
+export function hasMotorizedLens(caps: Record<string, any>): boolean {
+  return caps.ElectricFocus === true || caps.SyncFocus === true
+}
+
+/**
+ * Map a parsed getFocusStatus response
+ */
+export function parseFocusStatus(parsed: Record<string, any>): FocusStatus {
+  const status = parsed.status ?? {}
+  const fraction = (value: unknown) => Math.min(1, Math.max(0, Number(value) || 0))
+  return {
+    focus: fraction(status.Focus),
+    zoom: fraction(status.Zoom),
+    status: String(status.Status ?? 'Normal')
+  }
+}
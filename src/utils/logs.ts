@@ -0,0 +1,142 @@
+/**
+ * Camera log helpers (API §4.11)
+ *
+ * log.cgi works on a search token:
+ *   startFind (condition.*) -> token, count -> doSeekFind (offset, count <= 100) -> stopFind
+ * Each entry is items[n].RecNo/Time/Type/User plus optional items[n].Detail.*
+ */
+
+import type { CameraLogEntry, LogSearchQuery } from '@/types/camera'
+import { flattenToKeyValue } from './parser'
+import { parseCameraDateTime } from './system'
+
+// Entries per doSeekFind call (the API maximum)
+export const LOG_PAGE_SIZE = 100
+
+// Stop loading after this many entries (narrow the time range instead)
+export const MAX_LOG_ENTRIES = 10000
+
+// startFind condition.Type values
+export const LOG_TYPES = [
+  { value: '', label: 'All types' },
+  { value: 'System', label: 'System' },
+  { value: 'Config', label: 'Configuration' },
+  { value: 'Event', label: 'Events' },
+  { value: 'Storage', label: 'Storage' },
+  { value: 'Account', label: 'Accounts' },
+  { value: 'Data', label: 'Data' },
+  { value: 'File', label: 'Files' }
+]
+
+export type LogSortKey = 'recNo' | 'time' | 'type' | 'user' | 'detail'
+
+/**
+ * Build startFind condition params for a search
+ */
+export function buildLogCondition(query: LogSearchQuery): Record<string, string> {
+  return {
+    'condition.StartTime': query.startTime,
+    'condition.EndTime': query.endTime,
+    ...(query.type && { 'condition.Type': query.type })
+  }
+}
+
+/**
+ * Map a parsed doSeekFind/doFind response to log entries
+ */
+export function parseLogEntries(parsed: Record<string, any>): CameraLogEntry[] {
+  const items = Array.isArray(parsed.items) ? parsed.items : []
+
+  return items
+    .filter((item: any) => item && typeof item === 'object')
+    .map((item: any) => ({
+      recNo: Number(item.RecNo ?? 0),
+      time: String(item.Time ?? ''),
+      ...(item.TimeRealUTC !== undefined && { timeUtc: String(item.TimeRealUTC) }),
+      type: String(item.Type ?? ''),
+      user: String(item.User ?? ''),
+      detail: item.Detail !== null && typeof item.Detail === 'object'
+        ? flattenToKeyValue(item.Detail, '', { raw: true })
+        : item.Detail !== undefined ? { Detail: String(item.Detail) } : {}
+    }))
+}
+
+/**
+ * One-line detail text: "Compression: H.264->MJPG; Data: Encode"
+ */
+export function formatLogDetail(entry: CameraLogEntry): string {
+  return Object.entries(entry.detail)
+    .map(([key, value]) => `${key}: ${value.replace(/\s*\n\s*/g, ' ')}`)
+    .join('; ')
+}
+
+/**
+ * Case-insensitive text filter over all columns
+ */
+export function filterLogEntries(entries: CameraLogEntry[], text: string): CameraLogEntry[] {
+  const needle = text.trim().toLowerCase()
+  if (!needle) return entries
+  return entries.filter(entry =>
+    [String(entry.recNo), entry.time, entry.type, entry.user, formatLogDetail(entry)]
+      .some(value => value.toLowerCase().includes(needle))
+  )
+}
+
+/**
+ * Sorted copy of the entries
+ */
+export function sortLogEntries(entries: CameraLogEntry[], key: LogSortKey, descending: boolean): CameraLogEntry[] {
+  const value = (entry: CameraLogEntry): string | number => {
+    if (key === 'recNo') return entry.recNo
+    // Camera times are not zero-padded ("2011-5-3 9:05:00"), so compare as dates
+    if (key === 'time') return parseCameraDateTime(entry.time)?.getTime() ?? 0
+    if (key === 'detail') return formatLogDetail(entry)
+    return entry[key]
+  }
+
+  const direction = descending ? -1 : 1
+  return [...entries].sort((a, b) => {
+    const left = value(a)
+    const right = value(b)
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right))
+    return (order || a.recNo - b.recNo) * direction
+  })
+}
+
+/**
+ * CSV export (RFC 4180 quoting)
+ */
+export function logsToCsv(entries: CameraLogEntry[]): string {
+  const quote = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  const rows = [
+    ['RecNo', 'Time', 'TimeUTC', 'Type', 'User', 'Detail'],
+    ...entries.map(entry => [
+      String(entry.recNo),
+      entry.time,
+      entry.timeUtc ?? '',
+      entry.type,
+      entry.user,
+      formatLogDetail(entry)
+    ])
+  ]
+  return rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Download log entries as a CSV or JSON file
+ */
+export function downloadLogs(entries: CameraLogEntry[], format: 'csv' | 'json', baseName: string): void {
+  const content = format === 'csv' ? logsToCsv(entries) : JSON.stringify(entries, null, 2)
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const date = new Date().toISOString().slice(0, 10)
+  const safeName = baseName.replace(/[^\w.-]+/g, '_') || 'camera'
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${safeName}-log-${date}.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,74 @@
+/**
+ * MJPEG stream reader
+ *
+ * mjpg/video.cgi returns multipart/x-mixed-replace with one JPEG per part.
+ * Frames are cut using each part's Content-Length when present, otherwise
+ * by scanning for the JPEG start (FFD8) and end (FFD9) markers.
+ */
+
+const JPEG_START: [number, number] = [0xff, 0xd8]
+const JPEG_END: [number, number] = [0xff, 0xd9]
+
+// Guard against unbounded buffering if the stream is not MJPEG
+const MAX_BUFFER_BYTES = 8 * 1024 * 1024
+
+/**
+ * Read an MJPEG body until it ends, calling onFrame with each JPEG frame
+ */
+export async function readMjpegStream(
+  body: ReadableStream<Uint8Array>,
+  onFrame: (frame: Blob) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer: Uint8Array = new Uint8Array(0)
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return
+
+    buffer = concat(buffer, value)
+
+    while (true) {
+      const start = indexOf(buffer, JPEG_START)
+      if (start < 0) break
+
+      // Part headers sit between the previous frame and this one
+      const headers = decoder.decode(buffer.subarray(0, start))
+      const length = Number(headers.match(/content-length:\s*(\d+)/i)?.[1] ?? 0)
+
+      let end: number
+      if (length > 0) {
+        if (buffer.length < start + length) break
+        end = start + length
+      } else {
+        const marker = indexOf(buffer, JPEG_END, start + 2)
+        if (marker < 0) break
+        end = marker + 2
+      }
+
+      onFrame(new Blob([buffer.slice(start, end)], { type: 'image/jpeg' }))
+      buffer = buffer.slice(end)
+    }
+
+    if (buffer.length > MAX_BUFFER_BYTES) {
+      throw new Error('Stream does not contain MJPEG frames')
+    }
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a)
+  result.set(b, a.length)
+  return result
+}
+
+function indexOf(buffer: Uint8Array, marker: [number, number], from: number = 0): number {
+  let i = buffer.indexOf(marker[0], from)
+  while (i >= 0 && i < buffer.length - 1) {
+    if (buffer[i + 1] === marker[1]) return i
+    i = buffer.indexOf(marker[0], i + 1)
+  }
+  return -1
+}
@@ -0,0 +1,39 @@
+/**
+ * Motion detection region helpers
+ *
+ * Each MotionDetectWindow[n].Region[row] is a bitmask for one grid row:
+ * bit 0 is the leftmost block. The grid is 22 blocks x 18 rows.
+ */
+
+export const MOTION_GRID_COLS = 22
+export const MOTION_GRID_ROWS = 18
+
+// DetectVersion that must accompany Region changes
+export const MOTION_DETECT_VERSION = 'V3.0'
+
+/**
+ * Decode Region row bitmasks into a grid of cells (grid[row][col])
+ */
+export function regionToGrid(region: unknown): boolean[][] {
+  const rows = Array.isArray(region) ? region : []
+  return Array.from({ length: MOTION_GRID_ROWS }, (_, row) => {
+    const mask = Number(rows[row]) || 0
+    return Array.from({ length: MOTION_GRID_COLS }, (_, col) => (mask & (1 << col)) !== 0)
+  })
+}
+
+/**
+ * Encode a grid of cells back into Region row bitmasks
+ */
+export function gridToRegion(grid: boolean[][]): number[] {
+  return grid.map(row =>
+    row.reduce((mask, active, col) => (active ? mask | (1 << col) : mask), 0)
+  )
+}
+
+/**
+ * Create a grid with every cell set to the same value
+ */
+export function filledGrid(active: boolean): boolean[][] {
+  return Array.from({ length: MOTION_GRID_ROWS }, () => Array(MOTION_GRID_COLS).fill(active))
+}
@@ -0,0 +1,140 @@
+/**
+ * Network config helpers
+ *
+ * getConfig&name=Network returns one sub-table per interface:
+ *   table.Network.DefaultInterface=eth0
+ *   table.Network.eth0.IPAddress=192.168.1.108
+ * setConfig takes the same shape (Network.eth0.IPAddress=...).
+ */
+
+import type { NetworkConfig } from '@/types/camera'
+
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/
+
+export const MTU_MIN = 576
+export const MTU_MAX = 1500
+
+/**
+ * Extract the default interface's settings from a parsed Network table
+ */
+export function parseNetworkConfig(network: any): NetworkConfig {
+  const interfaceName = String(network?.DefaultInterface || 'eth0')
+  const iface = network?.[interfaceName] ?? {}
+
+  return {
+    interfaceName,
+    hostname: network?.Hostname !== undefined ? String(network.Hostname) : undefined,
+    address: iface.IPAddress !== undefined ? String(iface.IPAddress) : undefined,
+    subnet: iface.SubnetMask !== undefined ? String(iface.SubnetMask) : undefined,
+    gateway: iface.DefaultGateway !== undefined ? String(iface.DefaultGateway) : undefined,
+    dhcp: Boolean(iface.DhcpEnable),
+    dnsServers: Array.isArray(iface.DnsServers) ? iface.DnsServers.map(String) : [],
+    mtu: iface.MTU !== undefined ? Number(iface.MTU) : undefined,
+    macAddress: iface.PhysicalAddress !== undefined ? String(iface.PhysicalAddress) : undefined
+  }
+}
+
+/**
+ * Build a nested Network config for setConfig from the editor values
+ */
+export function buildNetworkConfig(config: NetworkConfig): Record<string, any> {
+  const iface: Record<string, any> = {
+    DhcpEnable: Boolean(config.dhcp),
+    DnsServers: (config.dnsServers ?? []).map(server => server.trim())
+  }
+
+  // Static addressing is ignored by the camera while DHCP is on
+  if (!config.dhcp) {
+    iface.IPAddress = config.address?.trim()
+    iface.SubnetMask = config.subnet?.trim()
+    iface.DefaultGateway = config.gateway?.trim()
+  }
+  if (config.mtu !== undefined) {
+    iface.MTU = config.mtu
+  }
+
+  const network: Record<string, any> = { [config.interfaceName || 'eth0']: iface }
+  if (config.hostname !== undefined) {
+    network.Hostname = config.hostname.trim()
+  }
+
+  return { Network: network }
+}
+
+export function isValidIpv4(value?: string): boolean {
+  return IPV4_PATTERN.test(value?.trim() ?? '')
+}
+
+/**
+ * Validate network settings
+ *
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateNetworkConfig(config: NetworkConfig): string[] {
+  const errors: string[] = []
+
+  if (!config.dhcp) {
+    if (!isValidIpv4(config.address)) {
+      errors.push('IP address must be a valid IPv4 address')
+    }
+    if (!isValidIpv4(config.subnet) || !isValidSubnetMask(config.subnet!)) {
+      errors.push('Subnet mask must be a valid mask (e.g. 255.255.255.0)')
+    }
+    if (config.gateway && !isValidIpv4(config.gateway)) {
+      errors.push('Gateway must be a valid IPv4 address')
+    }
+    if (errors.length === 0 && config.gateway && !sameSubnet(config.address!, config.gateway, config.subnet!)) {
+      errors.push('Gateway must be on the same subnet as the IP address')
+    }
+  }
+
+  config.dnsServers?.forEach((server, index) => {
+    if (server.trim() && !isValidIpv4(server)) {
+      errors.push(`DNS server ${index + 1} must be a valid IPv4 address`)
+    }
+  })
+
+  if (config.mtu !== undefined && (!Number.isInteger(config.mtu) || config.mtu < MTU_MIN || config.mtu > MTU_MAX)) {
+    errors.push(`MTU must be between ${MTU_MIN} and ${MTU_MAX}`)
+  }
+
+  return errors
+}
+
+/**
+ * Poll a probe until it succeeds or the timeout expires
+ *
+ * @returns true if the probe succeeded in time
+ */
+export async function waitForHost(
+  probe: () => Promise<boolean>,
+  timeoutMs: number,
+  intervalMs: number = 2000,
+  onAttempt?: (elapsedMs: number) => void
+): Promise<boolean> {
+  const started = Date.now()
+
+  while (Date.now() - started < timeoutMs) {
+    onAttempt?.(Date.now() - started)
+    if (await probe()) return true
+    await new Promise(resolve => setTimeout(resolve, intervalMs))
+  }
+
+  return false
+}
+
+function toNumber(address: string): number {
+  return address.trim().split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isValidSubnetMask(mask: string): boolean {
+  const value = toNumber(mask)
+  // Contiguous ones followed by zeros
+  const inverted = ~value >>> 0
+  return value !== 0 && (inverted & (inverted + 1)) === 0
+}
+
+function sameSubnet(a: string, b: string, mask: string): boolean {
+  const maskValue = toNumber(mask)
+  return ((toNumber(a) & maskValue) >>> 0) === ((toNumber(b) & maskValue) >>> 0)
+}
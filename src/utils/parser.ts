@@ -5,8 +5,11 @@
  * status.Focus=0.5
  * status.Zoom=0.5
  * Encode[0].MainFormat[0].Video.Width=1920
+ * items[1].Detail.Compression=H.264->MJPG
  *
- * This parser converts them to JavaScript objects
+ * This parser converts them to JavaScript objects. Text values may span
+ * several lines (e.g. log details): lines without '=' continue the
+ * previous value.
  */
 
 import { logger } from './logger'
@@ -19,6 +22,8 @@ export function parseKeyValueResponse(text: string): Record<string, any> {
   }
 
   const lines = text.split('\n').filter(line => line.trim() !== '')
+  // Last text value, so continuation lines can be appended to it
+  let previous: { key: string, value: string } | null = null
 
   for (const line of lines) {
     // Skip error messages
@@ -26,7 +31,13 @@ export function parseKeyValueResponse(text: string): Record<string, any> {
 
     // Parse key=value format
     const equalsIndex = line.indexOf('=')
-    if (equalsIndex === -1) continue
+    if (equalsIndex === -1) {
+      if (previous) {
+        previous.value += `\n${line.trim()}`
+        setValue(result, previous.key, previous.value)
+      }
+      continue
+    }
 
     const key = line.substring(0, equalsIndex).trim()
     const value = line.substring(equalsIndex + 1).trim()
@@ -35,24 +46,38 @@ export function parseKeyValueResponse(text: string): Record<string, any> {
 
     // Handle different value types
     const parsedValue = parseValue(value)
-
-    // Handle array notation: Config[0].Property
-    if (key.includes('[') && key.includes(']')) {
-      setNestedArrayValue(result, key, parsedValue)
-    }
-    // Handle dot notation: status.Focus
-    else if (key.includes('.')) {
-      setNestedValue(result, key, parsedValue)
-    }
-    // Simple key
-    else {
-      result[key] = parsedValue
-    }
+    setValue(result, key, parsedValue)
+    previous = typeof parsedValue === 'string' ? { key, value: parsedValue } : null
   }
 
   return result
 }
 
+function setValue(obj: Record<string, any>, key: string, value: any): void {
+  // Handle array notation: Config[0].Property
+  if (key.includes('[') && key.includes(']')) {
+    setNestedArrayValue(obj, key, value)
+  }
+  // Handle dot notation: status.Focus
+  else if (key.includes('.')) {
+    setNestedValue(obj, key, value)
+  }
+  // Simple key
+  else {
+    obj[key] = value
+  }
+}
+
+/**
+ * Whether a key's current value can hold child keys
+ *
+ * A key sent both as a value and as a parent (items[0].Detail=... and
+ * items[0].Detail.Data=...) keeps its children.
+ */
+function isContainer(value: any): boolean {
+  return value !== null && typeof value === 'object'
+}
+
 function parseValue(value: string): any {
   // Boolean
   if (value.toLowerCase() === 'true') return true
@@ -78,20 +103,20 @@ function setNestedValue(obj: Record<string, any>, path: string, value: any): voi
   for (let i = 0; i < parts.length - 1; i++) {
     const part = parts[i]
     if (!part) continue
-    if (!(part in current)) {
+    if (!isContainer(current[part])) {
       current[part] = {}
     }
     current = current[part]
   }
 
   const lastPart = parts[parts.length - 1]
-  if (lastPart) {
+  if (lastPart && !isContainer(current[lastPart])) {
     current[lastPart] = value
   }
 }
 
 function setNestedArrayValue(obj: Record<string, any>, path: string, value: any): void {
-  // Parse path like "Encode[0].MainFormat[1].Video.Width"
+  // Parse path like "Encode[0].MainFormat[1].Video.Width" or "Snap[0].TimeSection[0][1]"
   const parts = path.split('.')
   let current: any = obj
 
@@ -99,35 +124,50 @@ function setNestedArrayValue(obj: Record<string, any>, path: string, value: any)
     const part = parts[i]
     if (!part) continue
 
-    const arrayMatch = part.match(/^(\w+)\[(\d+)\]$/)
+    const arrayMatch = part.match(/^(\w+)((?:\[\d+\])+)$/)
+    const isLast = i === parts.length - 1
 
     if (arrayMatch) {
-      // Handle array notation
+      // Handle array notation (one or more indices)
       const arrayName = arrayMatch[1]
-      const indexStr = arrayMatch[2]
-      if (!arrayName || !indexStr) continue
+      const indexList = arrayMatch[2]
+      if (!arrayName || !indexList) continue
 
-      const index = parseInt(indexStr, 10)
+      const indices = [...indexList.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1]!, 10))
 
-      if (!(arrayName in current)) {
+      if (!Array.isArray(current[arrayName])) {
         current[arrayName] = []
       }
+      let container = current[arrayName]
 
-      if (!current[arrayName][index]) {
-        current[arrayName][index] = {}
+      // Walk intermediate indices of multi-dimensional arrays (Name[0][1])
+      for (let j = 0; j < indices.length - 1; j++) {
+        const index = indices[j]!
+        if (!Array.isArray(container[index])) {
+          container[index] = []
+        }
+        container = container[index]
       }
 
-      if (i === parts.length - 1) {
-        current[arrayName][index] = value
+      const index = indices[indices.length - 1]!
+
+      if (isLast) {
+        container[index] = value
       } else {
-        current = current[arrayName][index]
+        if (!container[index] || typeof container[index] !== 'object') {
+          container[index] = {}
+        }
+        current = container[index]
       }
     } else {
       // Regular property
-      if (i === parts.length - 1) {
-        current[part] = value
+      if (isLast) {
+        // Keep children already parsed for this key
+        if (!isContainer(current[part])) {
+          current[part] = value
+        }
       } else {
-        if (!(part in current)) {
+        if (!isContainer(current[part])) {
           current[part] = {}
         }
         current = current[part]
@@ -136,6 +176,68 @@ function setNestedArrayValue(obj: Record<string, any>, path: string, value: any)
   }
 }
 
+/**
+ * Options for flattenToKeyValue
+ */
+export interface FlattenOptions {
+  /**
+   * Emit values exactly as the camera expects them in setConfig URLs.
+   * By default, strings that would otherwise parse as numbers or booleans
+   * (or that have surrounding whitespace) are wrapped in quotes so the
+   * output round-trips through parseKeyValueResponse.
+   */
+  raw?: boolean
+}
+
+/**
+ * Flatten a nested object into key=value pairs - the inverse of parseKeyValueResponse
+ *
+ * { Encode: [{ MainFormat: [{ Video: { Width: 1920 } }] }] }
+ * becomes
+ * { 'Encode[0].MainFormat[0].Video.Width': '1920' }
+ *
+ * Arrays use [n] indices (holes are skipped), booleans become true/false.
+ * Keys that are already flat (e.g. 'VideoWidget[0].TimeTitle.Rect[0]') pass through unchanged.
+ *
+ * @param value - Parsed (or partial) config object
+ * @param prefix - Key prefix for the top level, e.g. 'Encode'
+ */
+export function flattenToKeyValue(
+  value: any,
+  prefix: string = '',
+  options: FlattenOptions = {}
+): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  function traverse(node: any, path: string) {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => traverse(item, `${path}[${index}]`))
+    } else if (node !== null && typeof node === 'object') {
+      for (const key of Object.keys(node)) {
+        traverse(node[key], path ? `${path}.${key}` : key)
+      }
+    } else if (node !== undefined && node !== null && path) {
+      result[path] = formatValue(node, options.raw === true)
+    }
+  }
+
+  traverse(value, prefix)
+  return result
+}
+
+function formatValue(value: any, raw: boolean): string {
+  if (typeof value !== 'string' || raw) return String(value)
+
+  // Quote strings parseValue would otherwise turn into another type or trim
+  const ambiguous =
+    /^(true|false)$/i.test(value) ||
+    /^-?\d+(\.\d+)?$/.test(value) ||
+    (value.startsWith('"') && value.endsWith('"')) ||
+    value !== value.trim()
+
+  return ambiguous ? `"${value}"` : value
+}
+
 /**
  * Extract simple key-value pairs from response
  * Useful for simple responses like device type, serial number, etc.
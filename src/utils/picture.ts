@@ -0,0 +1,86 @@
+/**
+ * Image adjustment config helpers (API §5.1–5.5)
+ *
+ * Most image configs are indexed [channel][profile], where profile 0 is
+ * day, 1 is night and 2 is the normal scene. VideoImageControl and the
+ * legacy VideoInOptions are indexed by channel only.
+ */
+
+// Configs loaded by the Picture page (unsupported ones are skipped)
+export const PICTURE_CONFIG_NAMES = [
+  'VideoColor',
+  'VideoInSharpness',
+  'VideoImageControl',
+  'VideoInExposure',
+  'VideoInBacklight',
+  'VideoInWhiteBalance',
+  'VideoInDayNight',
+  'VideoInOptions'
+]
+
+export const PICTURE_PROFILES = [
+  { index: 0, label: 'Day', icon: 'bi-sun' },
+  { index: 1, label: 'Night', icon: 'bi-moon' },
+  { index: 2, label: 'Normal', icon: 'bi-circle-half' }
+]
+
+// VideoInOptions[ch].NightOptions.SwitchMode: which profile the camera uses
+export const PROFILE_SWITCH_MODES = [
+  { value: 0, label: 'Always day' },
+  { value: 1, label: 'By brightness' },
+  { value: 2, label: 'By time (sunrise/sunset)' },
+  { value: 3, label: 'Always night' },
+  { value: 4, label: 'Always normal' }
+]
+
+export const EXPOSURE_MODES = [
+  { value: 0, label: 'Auto' },
+  { value: 1, label: 'Low noise' },
+  { value: 2, label: 'Anti-smear' },
+  { value: 4, label: 'Manual (range)' },
+  { value: 5, label: 'Aperture priority' },
+  { value: 6, label: 'Manual (fixed)' },
+  { value: 7, label: 'Gain priority' },
+  { value: 8, label: 'Shutter priority' }
+]
+
+export const ANTI_FLICKER_MODES = [
+  { value: 0, label: 'Outdoor' },
+  { value: 1, label: '50 Hz' },
+  { value: 2, label: '60 Hz' }
+]
+
+export const BACKLIGHT_MODES = [
+  { value: 'Off', label: 'Off' },
+  { value: 'Backlight', label: 'Backlight compensation (BLC)' },
+  { value: 'GlareInhibition', label: 'Highlight compensation (HLC)' },
+  { value: 'WideDynamic', label: 'Wide dynamic range (WDR)' },
+  { value: 'SSA', label: 'Scene adaptation (SSA)' }
+]
+
+export const WHITE_BALANCE_MODES = ['Auto', 'Indoor', 'Outdoor', 'ATW', 'Manual', 'Sodium', 'Natural', 'StreetLamp']
+
+// White balance modes where GainRed/GainBlue take effect
+export const MANUAL_WHITE_BALANCE_MODES = ['Manual', 'Custom', 'ManualDatum']
+
+export const DAY_NIGHT_MODES = [
+  { value: 'Color', label: 'Always color' },
+  { value: 'Brightness', label: 'Auto (by brightness)' },
+  { value: 'BlackWhite', label: 'Always black & white' }
+]
+
+/**
+ * Names of configs whose current value differs from the last applied value
+ */
+export function changedConfigs(current: Record<string, any>, applied: Record<string, any>): string[] {
+  return Object.keys(current).filter(name =>
+    JSON.stringify(current[name]) !== JSON.stringify(applied[name])
+  )
+}
+
+/**
+ * Deep copy of parsed config values
+ */
+export function cloneConfigs(configs: Record<string, any>): Record<string, any> {
+  return JSON.parse(JSON.stringify(configs))
+}
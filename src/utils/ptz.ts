@@ -0,0 +1,204 @@
+/**
+ * PTZ helpers (API §8.1)
+ *
+ * Presets, tours, scans and patterns are numbered from 1. Commands go through
+ * ptz.cgi?action=start&code=<code> with the number in arg2 (presets) or
+ * arg1 (tours, scans, patterns).
+ *
+ * Click-to-center and rectangle zoom use 3D positioning (code=Position) with
+ * offsets on an 8192-unit frame centered on the picture.
+ */
+
+import type { PtzCaps, PtzPreset, PtzStatus, PtzTour } from '@/types/camera'
+import type { FrameRect } from '@/utils/widgets'
+
+export const PTZ_PRESET_CODES = { goto: 'GotoPreset', set: 'SetPreset', clear: 'ClearPreset' } as const
+export const PTZ_TOUR_CODES = { start: 'StartTour', stop: 'StopTour', clear: 'ClearTour' } as const
+export const PTZ_TOUR_PRESET_CODES = { add: 'AddTour', remove: 'DelTour' } as const
+export const PTZ_SCAN_CODES = {
+  setLeftLimit: 'SetLeftLimit',
+  setRightLimit: 'SetRightLimit',
+  start: 'AutoScanOn',
+  stop: 'AutoScanOff'
+} as const
+export const PTZ_PATTERN_CODES = {
+  recordStart: 'SetPatternBegin',
+  recordEnd: 'SetPatternEnd',
+  start: 'StartPattern',
+  stop: 'StopPattern'
+} as const
+
+// 3D positioning: arg1/arg2 offset from the frame center, arg3 zoom multiple
+export const PTZ_POSITION_CODE = 'Position'
+// Absolute move: arg1 pan, arg2 tilt (tenths of a degree), arg3 zoom
+export const PTZ_POSITION_ABS_CODE = 'PositionABS'
+
+export type PtzPresetAction = keyof typeof PTZ_PRESET_CODES
+export type PtzTourAction = keyof typeof PTZ_TOUR_CODES
+export type PtzTourPresetAction = keyof typeof PTZ_TOUR_PRESET_CODES
+export type PtzScanAction = keyof typeof PTZ_SCAN_CODES
+export type PtzPatternAction = keyof typeof PTZ_PATTERN_CODES
+
+// Used when the camera does not report its protocol caps
+export const DEFAULT_PTZ_CAPS: PtzCaps = {
+  presetMin: 1,
+  presetMax: 16,
+  tourMin: 1,
+  tourMax: 8,
+  patternMin: 1,
+  patternMax: 5
+}
+
+// Scan numbers are not reported by the camera
+export const PTZ_SCAN_COUNT = 5
+
+export const DEFAULT_TOUR_DWELL_SECONDS = 10
+
+// The 3D positioning frame is 8192 units across in both directions
+const PTZ_SCREEN_SIZE = 8192
+// Largest zoom multiple sent for a drawn rectangle
+const PTZ_MAX_ZOOM_STEP = 16
+
+export interface PtzRelativeMove {
+  x: number
+  y: number
+  zoom: number
+}
+
+/**
+ * 3D positioning arguments that center the camera on a point (fractions of the frame)
+ */
+export function centerOnPoint(point: { x: number, y: number }): PtzRelativeMove {
+  return {
+    x: Math.round((point.x - 0.5) * PTZ_SCREEN_SIZE),
+    y: Math.round((point.y - 0.5) * PTZ_SCREEN_SIZE),
+    zoom: 0
+  }
+}
+
+/**
+ * 3D positioning arguments that fill the frame with a rectangle (zoom in),
+ * or shrink the frame into it when zoomOut is set
+ */
+export function zoomToRect(rect: FrameRect, zoomOut = false): PtzRelativeMove {
+  const fill = 1 / Math.max(rect.width, rect.height, 1 / PTZ_MAX_ZOOM_STEP)
+  const zoom = Math.max(1, Math.round(fill))
+  return {
+    ...centerOnPoint({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 }),
+    zoom: zoomOut ? -zoom : zoom
+  }
+}
+
+/**
+ * Numbers from "[900, -900, 5]", "120,12,2" or an already parsed array
+ */
+export function parsePtzPosition(value: unknown): number[] | undefined {
+  const numbers = Array.isArray(value)
+    ? value.map(Number)
+    : String(value ?? '').match(/-?\d+(\.\d+)?/g)?.map(Number) ?? []
+  return numbers.length >= 3 && numbers.every(n => !isNaN(n)) ? numbers.slice(0, 3) : undefined
+}
+
+/**
+ * "Pan 90° · Tilt -90° · Zoom 5" for a preset position (tenths of a degree)
+ */
+export function formatPtzPosition(position: number[]): string {
+  const [pan = 0, tilt = 0, zoom = 0] = position
+  return `Pan ${pan / 10}° · Tilt ${tilt / 10}° · Zoom ${zoom}`
+}
+
+/**
+ * Map a parsed getPresets response
+ */
+export function parsePtzPresets(parsed: Record<string, any>): PtzPreset[] {
+  const presets = Array.isArray(parsed.presets) ? parsed.presets : []
+  return presets
+    .filter((preset: any) => preset && Number(preset.Index) > 0)
+    .map((preset: any) => {
+      const position = parsePtzPosition(preset.Position)
+      return {
+        index: Number(preset.Index),
+        name: String(preset.Name ?? '').replace(/^"|"$/g, ''),
+        ...(position && { position })
+      }
+    })
+    .sort((a: PtzPreset, b: PtzPreset) => a.index - b.index)
+}
+
+/**
+ * Map a parsed getStatus response
+ */
+export function parsePtzStatus(parsed: Record<string, any>): PtzStatus {
+  const status = parsed.status ?? {}
+  const position = parsePtzPosition(status.Position)
+  const presetId = Number(status.PresetID)
+  return {
+    moveStatus: String(status.MoveStatus ?? 'Unknown'),
+    zoomStatus: String(status.ZoomStatus ?? 'Unknown'),
+    ...(presetId > 0 && { presetId }),
+    ...(position && { position })
+  }
+}
+
+/**
+ * Map a parsed getCurrentProtocolCaps response (defaults for missing values)
+ */
+export function parsePtzCaps(parsed: Record<string, any>): PtzCaps {
+  const caps = parsed.caps ?? {}
+  const number = (value: unknown, fallback: number) => {
+    const n = Number(value)
+    return value !== undefined && !isNaN(n) ? n : fallback
+  }
+  const range = (min: unknown, max: unknown, fallbackMin: number, fallbackMax: number) => {
+    // Numbering starts from 1 even where the camera reports a minimum of 0
+    const from = Math.max(1, number(min, fallbackMin))
+    return [from, Math.max(from, number(max, fallbackMax))] as const
+  }
+
+  const [presetMin, presetMax] = range(caps.PresetMin, caps.PresetMax, DEFAULT_PTZ_CAPS.presetMin, DEFAULT_PTZ_CAPS.presetMax)
+  const [tourMin, tourMax] = range(caps.TourMin, caps.TourMax, DEFAULT_PTZ_CAPS.tourMin, DEFAULT_PTZ_CAPS.tourMax)
+  const [patternMin, patternMax] = range(caps.PatternMin, caps.PatternMax, DEFAULT_PTZ_CAPS.patternMin, DEFAULT_PTZ_CAPS.patternMax)
+  return { presetMin, presetMax, tourMin, tourMax, patternMin, patternMax }
+}
+
+/**
+ * Map one channel of the PtzTour config
+ *
+ * PtzTour is not in the V3.26 document; firmware that has it reports
+ * PtzTour[channel][tour].Name and Presets[n] = [preset, dwell seconds, speed].
+ */
+export function parsePtzTours(channelTours: unknown): PtzTour[] {
+  if (!Array.isArray(channelTours)) return []
+  return channelTours.map((tour: any, index: number) => ({
+    index: index + 1,
+    name: String(tour?.Name ?? ''),
+    presets: (Array.isArray(tour?.Presets) ? tour.Presets : [])
+      .filter((entry: any) => Array.isArray(entry) && Number(entry[0]) > 0)
+      .map((entry: any[]) => ({
+        preset: Number(entry[0]),
+        dwell: Number(entry[1]) || DEFAULT_TOUR_DWELL_SECONDS
+      }))
+  }))
+}
+
+/**
+ * Flat setConfig params for a tour's dwell times (PtzTour[channel][tour].Presets[n][1])
+ */
+export function buildTourDwellParams(channel: number, tour: PtzTour): Record<string, string> {
+  return Object.fromEntries(tour.presets.map((entry, position) => [
+    `PtzTour[${channel - 1}][${tour.index - 1}].Presets[${position}][1]`,
+    String(entry.dwell)
+  ]))
+}
+
+/**
+ * Problems with a tour before saving
+ */
+export function validatePtzTour(tour: PtzTour): string[] {
+  const errors: string[] = []
+  if (tour.presets.length === 0) errors.push('Add at least one preset to the tour')
+  if (tour.presets.some(entry => !Number.isInteger(entry.dwell) || entry.dwell < 1 || entry.dwell > 3600)) {
+    errors.push('Dwell times must be 1-3600 seconds')
+  }
+  return errors
+}
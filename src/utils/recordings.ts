@@ -0,0 +1,174 @@
+/**
+ * Recording search and download helpers (API §4.10.5, §4.10.12–4.10.13)
+ *
+ * mediaFileFind.cgi works on a server-side finder object:
+ *   factory.create -> findFile (condition.*) -> findNextFile (repeat) -> close -> destroy
+ * findNextFile returns found=N and items[n].* for up to `count` files.
+ * Files are downloaded through the server's /download endpoint, which streams
+ * RPC_Loadfile<FilePath> (or loadfile.cgi for a time range) from the camera.
+ */
+
+import type { MediaFile, MediaSearchQuery } from '@/types/camera'
+
+// Files requested per findNextFile call
+export const MEDIA_PAGE_SIZE = 100
+
+// Pause between batch downloads so the browser starts each one
+export const BATCH_DOWNLOAD_INTERVAL_MS = 1500
+
+// Record type filter -> findFile condition.Flags / condition.Events
+export const RECORD_TYPES: { value: string, label: string, flags?: string[], events?: string[] }[] = [
+  { value: 'all', label: 'All recordings' },
+  { value: 'continuous', label: 'Continuous (scheduled)', flags: ['Timing'] },
+  { value: 'motion', label: 'Motion', flags: ['Event'], events: ['VideoMotion'] },
+  { value: 'alarm', label: 'Alarm input', flags: ['Event'], events: ['AlarmLocal'] },
+  { value: 'manual', label: 'Manual', flags: ['Manual'] }
+]
+
+/**
+ * Build findFile condition params for a search
+ */
+export function buildFindCondition(query: MediaSearchQuery): Record<string, string> {
+  const params: Record<string, string> = {
+    'condition.Channel': String(query.channel),
+    'condition.StartTime': query.startTime,
+    'condition.EndTime': query.endTime,
+    'condition.Types[0]': query.fileType
+  }
+
+  const recordType = RECORD_TYPES.find(type => type.value === query.recordType)
+  recordType?.flags?.forEach((flag, index) => { params[`condition.Flags[${index}]`] = flag })
+  recordType?.events?.forEach((event, index) => { params[`condition.Events[${index}]`] = event })
+
+  return params
+}
+
+/**
+ * Map a parsed findNextFile response to files
+ */
+export function parseMediaFiles(parsed: Record<string, any>): MediaFile[] {
+  const items = Array.isArray(parsed.items) ? parsed.items : []
+
+  return items
+    .filter((item: any) => item && item.FilePath)
+    .map((item: any) => ({
+      // Results number channels from 0, conditions from 1
+      channel: Number(item.Channel ?? 0) + 1,
+      startTime: String(item.StartTime ?? ''),
+      endTime: String(item.EndTime ?? ''),
+      type: String(item.Type ?? ''),
+      filePath: String(item.FilePath),
+      length: Number(item.Length ?? 0),
+      duration: item.Duration !== undefined ? Number(item.Duration) : undefined,
+      events: Array.isArray(item.Events) ? item.Events.map(String) : [],
+      flags: Array.isArray(item.Flags) ? item.Flags.map(String) : [],
+      videoStream: item.VideoStream !== undefined ? String(item.VideoStream) : undefined
+    }))
+}
+
+/**
+ * Convert a datetime-local input value ('2024-01-31T12:05') to camera time
+ */
+export function toCameraTime(value: string): string {
+  const [date = '', time = '00:00'] = value.split('T')
+  return `${date} ${time.length === 5 ? `${time}:00` : time}`
+}
+
+/**
+ * datetime-local value for a Date in browser local time
+ */
+export function toDateTimeLocal(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * Download file name: ch1_2024-01-31_12.00.00_motion.dav
+ */
+export function mediaFileName(file: MediaFile): string {
+  const [date = 'unknown', time = ''] = file.startTime.split(' ')
+  const kind = file.events.includes('VideoMotion')
+    ? 'motion'
+    : file.events.includes('AlarmLocal')
+      ? 'alarm'
+      : file.flags.includes('Manual') ? 'manual' : 'record'
+  const extension = file.filePath.split('.').pop() || file.type
+  return `ch${file.channel}_${date}_${time.replace(/:/g, '.')}_${kind}.${extension}`
+}
+
+/**
+ * Human-readable file size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`
+}
+
+/**
+ * Human-readable duration (seconds -> 1h 02m, 4m 05s, 30s)
+ */
+export function formatDuration(seconds?: number): string {
+  if (seconds === undefined) return '—'
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.floor(seconds % 60)
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`
+  if (m > 0) return `${m}m ${String(s).padStart(2, '0')}s`
+  return `${s}s`
+}
+
+/**
+ * Submit a download form into a hidden iframe
+ *
+ * The browser's download manager receives the file, so it is never held in
+ * page memory. If the server answers with an error page instead of a file,
+ * the iframe loads it and onError is called with the message.
+ */
+export function submitDownload(action: string, fields: Record<string, string>, onError?: (message: string) => void) {
+  const iframe = document.createElement('iframe')
+  iframe.name = `download-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  iframe.hidden = true
+  document.body.appendChild(iframe)
+
+  const form = document.createElement('form')
+  form.method = 'POST'
+  form.action = action
+  form.target = iframe.name
+  form.hidden = true
+  for (const [name, value] of Object.entries(fields)) {
+    const input = document.createElement('input')
+    input.type = 'hidden'
+    input.name = name
+    input.value = value
+    form.appendChild(input)
+  }
+  document.body.appendChild(form)
+
+  // Attachments do not fire load; error responses do
+  iframe.addEventListener('load', () => {
+    // Some browsers fire load for the initial blank document
+    if (iframe.contentWindow?.location.href === 'about:blank') return
+    const text = iframe.contentDocument?.body?.textContent?.trim() || ''
+    let message = text || 'Download failed'
+    try {
+      message = JSON.parse(text).error || message
+    } catch {
+      // Not JSON - use the text as-is
+    }
+    onError?.(message)
+    iframe.remove()
+  })
+
+  form.submit()
+  form.remove()
+
+  // Downloads keep running after the iframe is gone
+  setTimeout(() => iframe.remove(), 60000)
+}
@@ -0,0 +1,81 @@
+/**
+ * Weekly schedule helpers for TimeSection configs
+ *
+ * Cameras describe schedules as TimeSection[weekday][segment] strings:
+ *   "1 00:00:00-23:59:59"  (mask, start-end)
+ * Weekday 0 is Sunday; each day has 6 segments.
+ */
+
+import type { TimeSection } from '@/types/camera'
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+export const SEGMENTS_PER_DAY = 6
+
+const DEFAULT_SECTION = '0 00:00:00-23:59:59'
+
+/**
+ * Parse a TimeSection string
+ */
+export function parseTimeSection(value: unknown): TimeSection {
+  const match = String(value ?? '').trim().match(/^(\d+)\s+(\d{1,2}:\d{2}:\d{2})-(\d{1,2}:\d{2}:\d{2})$/)
+  if (!match) {
+    return { mask: 0, start: '00:00:00', end: '23:59:59' }
+  }
+  return { mask: parseInt(match[1]!, 10), start: match[2]!, end: match[3]! }
+}
+
+/**
+ * Format a TimeSection back to the camera's string form
+ */
+export function formatTimeSection(section: TimeSection): string {
+  return `${section.mask} ${section.start}-${section.end}`
+}
+
+/**
+ * Parse a parsed TimeSection table (array of days of segment strings) into a 7x6 grid
+ */
+export function parseSchedule(table: unknown): TimeSection[][] {
+  const days = Array.isArray(table) ? table : []
+  return WEEKDAYS.map((_, day) => {
+    const segments = Array.isArray(days[day]) ? days[day] : []
+    return Array.from({ length: SEGMENTS_PER_DAY }, (_, segment) =>
+      parseTimeSection(segments[segment] ?? DEFAULT_SECTION)
+    )
+  })
+}
+
+/**
+ * Format a 7x6 schedule grid for setConfig (nested arrays of strings)
+ */
+export function formatSchedule(schedule: TimeSection[][]): string[][] {
+  return schedule.map(day => day.map(formatTimeSection))
+}
+
+/**
+ * Validate segment times (hh:mm:ss, start before end)
+ *
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateSchedule(schedule: TimeSection[][]): string[] {
+  const errors: string[] = []
+  const timePattern = /^([01]?\d|2[0-4]):[0-5]\d:[0-5]\d$/
+
+  schedule.forEach((day, dayIndex) => {
+    day.forEach((section, segment) => {
+      if (section.mask === 0) return
+      const label = `${WEEKDAYS[dayIndex]} segment ${segment + 1}`
+      if (!timePattern.test(section.start) || !timePattern.test(section.end)) {
+        errors.push(`${label}: times must be hh:mm:ss`)
+      } else if (toSeconds(section.start) >= toSeconds(section.end)) {
+        errors.push(`${label}: start must be before end`)
+      }
+    })
+  })
+
+  return errors
+}
+
+function toSeconds(time: string): number {
+  const [h, m, s] = time.split(':').map(Number)
+  return (h ?? 0) * 3600 + (m ?? 0) * 60 + (s ?? 0)
+}
@@ -0,0 +1,64 @@
+/**
+ * Storage and recording config helpers (API §4.10.2–4.10.4, §6.1)
+ *
+ * getDeviceAllInfo returns list.info[n].Name/State plus one
+ * list.info[n].Detail[m].* entry per partition. The Record config holds the
+ * weekly TimeSection grid per channel; mask bits select the record type.
+ */
+
+import type { StorageDevice } from '@/types/camera'
+
+// Record[ch].TimeSection mask bits offered in the schedule editor
+export const RECORD_FLAGS = [
+  { bit: 1, label: 'Continuous' },
+  { bit: 2, label: 'Motion' },
+  { bit: 4, label: 'Alarm' }
+]
+
+// RecordMode[ch].Mode
+export const RECORD_MODES = [
+  { value: 0, label: 'By schedule' },
+  { value: 1, label: 'Always (manual)' },
+  { value: 2, label: 'Off' }
+]
+
+export const PRE_RECORD_MAX = 300
+
+/**
+ * Map a parsed getDeviceAllInfo response to devices
+ */
+export function parseStorageDevices(parsed: Record<string, any>): StorageDevice[] {
+  const info = Array.isArray(parsed.list?.info) ? parsed.list.info : []
+
+  return info
+    .filter((device: any) => device && device.Name !== undefined)
+    .map((device: any) => ({
+      name: String(device.Name),
+      state: String(device.State ?? 'Unknown'),
+      partitions: (Array.isArray(device.Detail) ? device.Detail : [])
+        .filter((detail: any) => detail)
+        .map((detail: any) => ({
+          path: String(detail.Path ?? ''),
+          type: String(detail.Type ?? ''),
+          totalBytes: Number(detail.TotalBytes ?? 0),
+          usedBytes: Number(detail.UsedBytes ?? 0),
+          isError: Boolean(detail.IsError)
+        }))
+    }))
+}
+
+/**
+ * Total and used bytes across a device's partitions
+ */
+export function deviceUsage(device: StorageDevice): { total: number, used: number, percent: number } {
+  const total = device.partitions.reduce((sum, partition) => sum + partition.totalBytes, 0)
+  const used = device.partitions.reduce((sum, partition) => sum + partition.usedBytes, 0)
+  return { total, used, percent: total > 0 ? Math.round((used / total) * 100) : 0 }
+}
+
+/**
+ * Whether a device reports a problem (state or any partition)
+ */
+export function deviceHasError(device: StorageDevice): boolean {
+  return device.state === 'Error' || device.partitions.some(partition => partition.isError)
+}
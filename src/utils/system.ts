@@ -0,0 +1,79 @@
+/**
+ * System helpers (API §4.6): software version, camera clock, Locales and AutoMaintain
+ *
+ * global.cgi get/setCurrentTime use "Y-M-D H:m:S" in camera local time,
+ * regardless of Locales.TimeFormat (which only affects the video time title).
+ */
+
+import { WEEKDAYS } from './schedule'
+
+// Locales.TimeFormat choices (the camera's current value is kept if not listed)
+export const TIME_FORMATS = [
+  'yyyy-MM-dd HH:mm:ss',
+  'MM-dd-yyyy HH:mm:ss',
+  'dd-MM-yyyy HH:mm:ss',
+  'yyyy-MM-dd hh:mm:ss',
+  'MM-dd-yyyy hh:mm:ss',
+  'dd-MM-yyyy hh:mm:ss'
+]
+
+export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+// Locales.DSTStart/DSTEnd.Week: 0 = Day is a month day, otherwise Day is a weekday
+export const DST_WEEKS = [
+  { value: 0, label: 'Day of month' },
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' }
+]
+
+// AutoMaintain.AutoRebootDay: -1 never, 0-6 Sunday-Saturday, 7 every day
+export const AUTO_REBOOT_DAYS = [
+  { value: -1, label: 'Never' },
+  { value: 7, label: 'Every day' },
+  ...WEEKDAYS.map((day, index) => ({ value: index, label: `Every ${day}` }))
+]
+
+/**
+ * Split getSoftwareVersion's "2.212.0000.0.R,build:2013-11-14"
+ */
+export function parseSoftwareVersion(value: string): { version: string, buildDate?: string } {
+  const [version = '', ...rest] = value.split(',')
+  const buildDate = rest.join(',').match(/build:\s*(\S+)/i)?.[1]
+  return { version: version.trim(), ...(buildDate && { buildDate }) }
+}
+
+/**
+ * Parse camera time ("2011-7-3 21:02:32") as a local Date
+ */
+export function parseCameraDateTime(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{1,2}):(\d{1,2})$/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second] = match.map(Number) as number[]
+  return new Date(year!, month! - 1, day!, hour!, minute!, second!)
+}
+
+/**
+ * Format a Date (browser local time) for setCurrentTime
+ */
+export function formatCameraDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+/**
+ * Human-readable clock difference (camera minus browser)
+ */
+export function formatClockDrift(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (Math.abs(seconds) < 2) return 'in sync with this browser'
+  const amount = Math.abs(seconds) < 120
+    ? `${Math.abs(seconds)} seconds`
+    : Math.abs(seconds) < 7200
+      ? `${Math.round(Math.abs(seconds) / 60)} minutes`
+      : `${Math.round(Math.abs(seconds) / 3600)} hours`
+  return `${amount} ${seconds > 0 ? 'ahead of' : 'behind'} this browser`
+}
@@ -0,0 +1,164 @@
+/**
+ * User account helpers (API §4.7, userManager.cgi)
+ *
+ * getUserInfoAll / getActiveUserInfoAll return users[n].*, getGroupInfoAll
+ * returns group[n].*. addUser and modifyUser take the same fields under a
+ * user. prefix (user.Name, user.AuthorityList[0], ...).
+ */
+
+import type { CameraUser, CameraUserGroup, ActiveUserSession } from '@/types/camera'
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_@.-]{1,31}$/
+export const PASSWORD_MIN_LENGTH = 8
+export const PASSWORD_MAX_LENGTH = 32
+
+// Display names for common authority codes (unknown codes are shown as-is)
+export const AUTHORITY_LABELS: Record<string, string> = {
+  AuthUserMag: 'User management',
+  AuthSysCfg: 'System configuration',
+  AuthSysInfo: 'System information',
+  AuthManuCtr: 'Manual control',
+  AuthBackup: 'Backup',
+  AuthStoreCfg: 'Storage configuration',
+  AuthEventCfg: 'Event configuration',
+  AuthNetCfg: 'Network configuration',
+  AuthRmtDevice: 'Remote devices',
+  AuthSecurity: 'Security',
+  AuthMaintence: 'Maintenance',
+  AuthPeripheral: 'Peripherals',
+  AuthAVParam: 'Audio/video parameters',
+  AuthPTZ: 'PTZ control'
+}
+
+/**
+ * Readable name for an authority code (Monitor_01 -> Live view (channel 1))
+ */
+export function authorityLabel(authority: string): string {
+  const channel = authority.match(/^(Monitor|Replay)_0*(\d+)$/)
+  if (channel) {
+    return `${channel[1] === 'Monitor' ? 'Live view' : 'Playback'} (channel ${channel[2]})`
+  }
+  return AUTHORITY_LABELS[authority] ?? authority
+}
+
+/**
+ * Map a parsed getUserInfoAll response to users
+ */
+export function parseUsers(parsed: Record<string, any>): CameraUser[] {
+  return toList(parsed.users).map(user => ({
+    id: user.Id !== undefined ? Number(user.Id) : undefined,
+    name: String(user.Name ?? ''),
+    group: String(user.Group ?? ''),
+    authorities: toStringList(user.AuthorityList ?? user.AuthList),
+    memo: optionalString(user.Memo),
+    reserved: user.Reserved !== undefined ? Boolean(user.Reserved) : undefined,
+    sharable: user.Sharable !== undefined ? Boolean(user.Sharable) : undefined
+  }))
+}
+
+/**
+ * Map a parsed getGroupInfoAll response to groups
+ */
+export function parseGroups(parsed: Record<string, any>): CameraUserGroup[] {
+  return toList(parsed.group).map(group => ({
+    id: group.Id !== undefined ? Number(group.Id) : undefined,
+    name: String(group.Name ?? ''),
+    authorities: toStringList(group.AuthorityList),
+    memo: optionalString(group.Memo)
+  }))
+}
+
+/**
+ * Map a parsed getActiveUserInfoAll response to sessions
+ *
+ * The documented keys are lowercase (users[0].ip, users[0].clienttype);
+ * some firmware uses Name/ClientAddress/ClientType/LoginTime instead.
+ */
+export function parseSessions(parsed: Record<string, any>): ActiveUserSession[] {
+  return toList(parsed.users).map(session => ({
+    id: session.Id !== undefined ? Number(session.Id) : undefined,
+    name: String(session.name ?? session.Name ?? ''),
+    group: optionalString(session.group ?? session.Group),
+    clientAddress: optionalString(session.ip ?? session.ClientAddress),
+    clientType: optionalString(session.clienttype ?? session.ClientType),
+    loginTime: optionalString(session.logintime ?? session.LoginTime)
+  }))
+}
+
+/**
+ * Build addUser/modifyUser fields (without the user. prefix)
+ */
+export function buildUserFields(user: CameraUser): Record<string, any> {
+  return {
+    Name: user.name,
+    Group: user.group,
+    AuthorityList: user.authorities,
+    Memo: user.memo ?? '',
+    Sharable: user.sharable ?? true,
+    Reserved: user.reserved ?? false
+  }
+}
+
+/**
+ * Validate a user name (and optionally its new password)
+ *
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateUser(
+  user: CameraUser,
+  groups: CameraUserGroup[],
+  password?: { value: string, confirm: string }
+): string[] {
+  const errors: string[] = []
+
+  if (!USERNAME_PATTERN.test(user.name)) {
+    errors.push('User name must be 1-31 letters, digits or _ @ . -')
+  }
+
+  const group = groups.find(g => g.name === user.group)
+  if (!group) {
+    errors.push('Choose a group')
+  } else {
+    const outside = user.authorities.filter(authority => !group.authorities.includes(authority))
+    if (outside.length > 0) {
+      errors.push(`Group ${group.name} does not allow: ${outside.map(authorityLabel).join(', ')}`)
+    }
+  }
+
+  if (password) {
+    errors.push(...validatePassword(password.value, password.confirm))
+  }
+
+  return errors
+}
+
+/**
+ * Validate a new password and its confirmation
+ */
+export function validatePassword(password: string, confirm: string): string[] {
+  const errors: string[] = []
+
+  if (password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be ${PASSWORD_MIN_LENGTH}-${PASSWORD_MAX_LENGTH} characters`)
+  }
+  if (password !== confirm) {
+    errors.push('Passwords do not match')
+  }
+
+  return errors
+}
+
+function toList(value: any): Record<string, any>[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : []
+}
+
+// Authority lists come as arrays (AuthorityList[0]=...) or one comma-separated value
+function toStringList(value: any): string[] {
+  if (Array.isArray(value)) return value.filter(item => item !== undefined).map(String)
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean)
+  return []
+}
+
+function optionalString(value: any): string | undefined {
+  return value !== undefined && value !== '' ? String(value) : undefined
+}
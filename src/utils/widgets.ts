@@ -0,0 +1,188 @@
+/**
+ * Video widget geometry (API §4.5.11)
+ *
+ * VideoWidget Rect values are [left, top, right, bottom] in a 0-8191 space
+ * that covers the whole frame at any resolution. Titles only use (left, top);
+ * covers (privacy masks) use the full rectangle.
+ */
+
+import type { OverlayWidget, PrivacyCover } from '@/types/camera'
+
+export const WIDGET_COORDINATE_MAX = 8191
+
+export type WidgetRect = [number, number, number, number]
+
+// Rectangle as fractions (0-1) of the frame, for drawing over the preview
+export interface FrameRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Title position presets (with edge spacing)
+// Note: Y-coordinate 352 matches the timestamp's vertical offset for consistent spacing
+export const POSITION_PRESETS: Record<string, WidgetRect> = {
+  'top-left': [256, 352, 2048, 769],
+  'top-center': [3072, 352, 5120, 769],
+  'top-right': [6144, 352, 7936, 769],
+  'bottom-left': [256, 7424, 2048, 7936],
+  'bottom-center': [3072, 7424, 5120, 7936],
+  'bottom-right': [6144, 7424, 7936, 7936]
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Read a camera Rect, clamped to the coordinate space ([0, 0, 0, 0] if missing)
+ */
+export function parseWidgetRect(value: unknown): WidgetRect {
+  const rect = Array.isArray(value) ? value.map(Number) : []
+  const [left = 0, top = 0, right = 0, bottom = 0] = rect.map(n => clamp(Math.round(n) || 0, 0, WIDGET_COORDINATE_MAX))
+  return [Math.min(left, right), Math.min(top, bottom), Math.max(left, right), Math.max(top, bottom)]
+}
+
+/**
+ * Camera Rect -> fractions of the frame
+ */
+export function toFrameRect(rect: WidgetRect): FrameRect {
+  const [left, top, right, bottom] = rect
+  return {
+    x: left / WIDGET_COORDINATE_MAX,
+    y: top / WIDGET_COORDINATE_MAX,
+    width: (right - left) / WIDGET_COORDINATE_MAX,
+    height: (bottom - top) / WIDGET_COORDINATE_MAX
+  }
+}
+
+/**
+ * Fractions of the frame -> camera Rect (clamped to the frame)
+ */
+export function toWidgetRect(frame: FrameRect): WidgetRect {
+  const x = clamp(frame.x, 0, 1)
+  const y = clamp(frame.y, 0, 1)
+  const right = clamp(frame.x + frame.width, x, 1)
+  const bottom = clamp(frame.y + frame.height, y, 1)
+  const scale = (value: number) => Math.round(value * WIDGET_COORDINATE_MAX)
+  return [scale(x), scale(y), scale(right), scale(bottom)]
+}
+
+/**
+ * Whether a Rect encloses any area
+ */
+export function isEmptyWidgetRect(rect: WidgetRect): boolean {
+  return rect[2] <= rect[0] || rect[3] <= rect[1]
+}
+
+/**
+ * Move a Rect so its top-left corner is at (left, top), keeping its size inside the frame
+ */
+export function moveWidgetRect(rect: WidgetRect, left: number, top: number): WidgetRect {
+  const width = rect[2] - rect[0]
+  const height = rect[3] - rect[1]
+  const x = clamp(Math.round(left), 0, WIDGET_COORDINATE_MAX - width)
+  const y = clamp(Math.round(top), 0, WIDGET_COORDINATE_MAX - height)
+  return [x, y, x + width, y + height]
+}
+
+/**
+ * Name of the position preset whose top-left corner matches a Rect, if any
+ */
+export function matchingPositionPreset(rect: WidgetRect): string | null {
+  const match = Object.entries(POSITION_PRESETS).find(([, preset]) => preset[0] === rect[0] && preset[1] === rect[1])
+  return match ? match[0] : null
+}
+
+/**
+ * Map a ChannelTitle/TimeTitle/PictureTitle/CustomTitle[n] config to editor state
+ */
+export function parseOverlayWidget(value: any): OverlayWidget | null {
+  if (!value || typeof value !== 'object') return null
+
+  const color = (entry: unknown) => Array.isArray(entry) && entry.length >= 3
+    ? entry.map(component => clamp(Math.round(Number(component)) || 0, 0, 255))
+    : undefined
+  const frontColor = color(value.FrontColor)
+  const backColor = color(value.BackColor)
+
+  return {
+    encodeBlend: Boolean(value.EncodeBlend),
+    rect: parseWidgetRect(value.Rect),
+    ...(frontColor && { frontColor }),
+    ...(backColor && { backColor }),
+    ...(value.Text !== undefined && { text: String(value.Text) })
+  }
+}
+
+/**
+ * Build the partial widget config from editor state
+ */
+export function buildOverlayWidget(widget: OverlayWidget): Record<string, any> {
+  return {
+    EncodeBlend: widget.encodeBlend,
+    Rect: widget.rect,
+    ...(widget.frontColor && { FrontColor: widget.frontColor }),
+    ...(widget.backColor && { BackColor: widget.backColor }),
+    ...(widget.text !== undefined && { Text: widget.text })
+  }
+}
+
+/**
+ * Extra text lines: CustomTitle[n] on newer firmware, UserDefinedTitle[n] on older
+ */
+export function customTitleKey(widget: any): 'CustomTitle' | 'UserDefinedTitle' | null {
+  if (Array.isArray(widget?.CustomTitle)) return 'CustomTitle'
+  if (Array.isArray(widget?.UserDefinedTitle)) return 'UserDefinedTitle'
+  return null
+}
+
+/**
+ * RGB(A) color -> '#rrggbb' for <input type="color">
+ */
+export function colorToHex(color: number[]): string {
+  return '#' + color.slice(0, 3).map(component => component.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Replace the RGB part of a color from '#rrggbb', keeping its alpha
+ */
+export function withHexColor(color: number[], hex: string): number[] {
+  const match = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i)
+  if (!match) return color
+  return [...match.slice(1, 4).map(component => parseInt(component, 16)), ...color.slice(3)]
+}
+
+/**
+ * Map VideoWidget[n].Covers to editor state
+ *
+ * A cover is enabled while it blends into the preview or the encoded stream.
+ * Disabled covers keep both blends on, so enabling one masks everywhere.
+ */
+export function parseCovers(covers: unknown): PrivacyCover[] {
+  if (!Array.isArray(covers)) return []
+
+  return covers.map((cover: any) => {
+    const encodeBlend = Boolean(cover?.EncodeBlend)
+    // PreviewBlend is missing on some firmware
+    const previewBlend = cover?.PreviewBlend !== undefined ? Boolean(cover.PreviewBlend) : undefined
+    const enabled = encodeBlend || previewBlend === true
+
+    return {
+      enabled,
+      encodeBlend: enabled ? encodeBlend : true,
+      ...(previewBlend !== undefined && { previewBlend: enabled ? previewBlend : true }),
+      rect: parseWidgetRect(cover?.Rect)
+    }
+  })
+}
+
+/**
+ * Build the partial VideoWidget[n].Covers config from editor state
+ */
+export function buildCovers(covers: PrivacyCover[]): Record<string, any>[] {
+  return covers.map(cover => ({
+    EncodeBlend: cover.enabled && cover.encodeBlend,
+    ...(cover.previewBlend !== undefined && { PreviewBlend: cover.enabled && cover.previewBlend }),
+    Rect: cover.rect
+  }))
+}
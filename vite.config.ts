@@ -20,6 +20,46 @@ export default defineConfig({
       '/proxy': {
         target: 'http://localhost:3001',
         changeOrigin: true,
+      },
+      // Admin login (optional)
+      '/auth': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Camera logins (credentials stay on the server, browser gets a session cookie)
+      '/session': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Camera event streams (Server-Sent Events)
+      '/events': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Recording downloads (form POST, streamed attachments)
+      '/download': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Camera account password changes (JSON POST)
+      '/accounts': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Address reachability checks (no camera login)
+      '/reachable': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Camera pool metrics
+      '/metrics': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
+      // Firmware upload and upgrade progress
+      '/firmware': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
       }
     }
   },